@@ -0,0 +1,33 @@
+-- Runs after `prisma db push` (see `npm run db:push`). Every statement has to
+-- be safe to repeat.
+
+-- Product search. `searchVector` and `searchText` are declared in schema.prisma
+-- so their indexes are managed there, but `db push` can only create them as
+-- plain columns; they become generated from the product's own columns here.
+-- Dropping them drops their indexes, which are recreated under Prisma's names.
+-- unaccent() is not immutable, hence the wrapper.
+CREATE OR REPLACE FUNCTION immutable_unaccent(text) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+AS $$ SELECT public.unaccent('public.unaccent', $1) $$;
+
+DO $$
+BEGIN
+  IF (
+    SELECT count(*) FROM information_schema.columns
+    WHERE table_name = 'Product' AND column_name IN ('searchVector', 'searchText') AND is_generated = 'ALWAYS'
+  ) = 2 THEN
+    RETURN;
+  END IF;
+
+  ALTER TABLE "Product" DROP COLUMN IF EXISTS "searchVector", DROP COLUMN IF EXISTS "searchText";
+  ALTER TABLE "Product"
+    ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('portuguese', immutable_unaccent(name)), 'A') ||
+      setweight(to_tsvector('simple', immutable_unaccent(sku)), 'A') ||
+      setweight(to_tsvector('portuguese', immutable_unaccent(coalesce(description, ''))), 'C')
+    ) STORED,
+    ADD COLUMN "searchText" text GENERATED ALWAYS AS (lower(immutable_unaccent(name || ' ' || sku))) STORED;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "Product_searchVector_idx" ON "Product" USING GIN ("searchVector");
+CREATE INDEX IF NOT EXISTS "Product_searchText_idx" ON "Product" USING GIN ("searchText" gin_trgm_ops);
@@ -0,0 +1,33 @@
+-- Runs before `prisma db push` (see `npm run db:push`). Every statement has to
+-- be safe to repeat and to run on a database the schema was never pushed to.
+
+-- User.cnpj is unique and stored as digits only. Older rows may hold formatted
+-- and unformatted copies of the same CNPJ: the first account keeps it (sellers
+-- before customers, then the oldest) and the others are cleared for support to
+-- follow up.
+DO $$
+DECLARE
+  cleared integer;
+BEGIN
+  IF to_regclass('"User"') IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE "User" u SET "cnpj" = NULL
+  FROM (
+    SELECT "id", row_number() OVER (
+      PARTITION BY regexp_replace("cnpj", '\D', '', 'g')
+      ORDER BY ("role" = 'SELLER') DESC, "createdAt", "id"
+    ) AS rank
+    FROM "User"
+    WHERE "cnpj" IS NOT NULL
+  ) duplicates
+  WHERE u."id" = duplicates."id" AND duplicates.rank > 1;
+  GET DIAGNOSTICS cleared = ROW_COUNT;
+  IF cleared > 0 THEN
+    RAISE NOTICE 'Cleared a duplicate CNPJ on % account(s)', cleared;
+  END IF;
+
+  UPDATE "User" SET "cnpj" = NULLIF(regexp_replace("cnpj", '\D', '', 'g'), '')
+  WHERE "cnpj" ~ '\D' OR "cnpj" = '';
+END $$;
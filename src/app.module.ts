@@ -1,9 +1,12 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 import { LoggerModule } from 'nestjs-pino';
 import { APP_GUARD } from '@nestjs/core';
 import { PrismaModule } from './common/prisma/prisma.module';
+import { MailerModule } from './common/mailer/mailer.module';
+import { StorageModule } from './common/storage/storage.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { BlingModule } from './modules/bling/bling.module';
 import { ProductsModule } from './modules/products/products.module';
@@ -15,6 +18,11 @@ import { ShippingModule } from './modules/shipping/shipping.module';
 import { AdminModule } from './modules/admin/admin.module';
 import { SellerSettingsModule } from './modules/seller-settings/seller-settings.module';
 import { HealthModule } from './modules/health/health.module';
+import { PrivacyModule } from './modules/privacy/privacy.module';
+import { KycModule } from './modules/kyc/kyc.module';
+import { SellerTeamModule } from './modules/seller-team/seller-team.module';
+import { AttributesModule } from './modules/attributes/attributes.module';
+import { PrescriptionsModule } from './modules/prescriptions/prescriptions.module';
 import { AppController } from './app.controller';
 
 @Module({
@@ -25,7 +33,7 @@ import { AppController } from './app.controller';
         transport: process.env.NODE_ENV !== 'production'
           ? { target: 'pino-pretty', options: { colorize: true, singleLine: true } }
           : undefined,
-        redact: { paths: ['req.headers.authorization', 'req.body.password'], remove: true },
+        redact: { paths: ['req.headers.authorization', 'req.body.password', 'req.body.currentPassword', 'req.body.newPassword', 'req.body.refreshToken'], remove: true },
         level: process.env.LOG_LEVEL || 'info',
         autoLogging: true,
       },
@@ -35,7 +43,10 @@ import { AppController } from './app.controller';
       ttl: 60000,
       limit: 100,
     }]),
+    ScheduleModule.forRoot(),
     PrismaModule,
+    MailerModule,
+    StorageModule,
     AuthModule,
     BlingModule,
     ProductsModule,
@@ -47,6 +58,11 @@ import { AppController } from './app.controller';
     AdminModule,
     SellerSettingsModule,
     HealthModule,
+    PrivacyModule,
+    KycModule,
+    SellerTeamModule,
+    AttributesModule,
+    PrescriptionsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -0,0 +1,20 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+
+export interface AuditActor {
+  id: string;
+  role?: UserRole;
+  ipAddress?: string;
+  requestId?: string;
+}
+
+// Who is making the request, as recorded in the audit log
+export const CurrentActor = createParamDecorator((_data: unknown, context: ExecutionContext): AuditActor => {
+  const request = context.switchToHttp().getRequest();
+  return {
+    id: request.user?.sub,
+    role: request.user?.role,
+    ipAddress: request.ip,
+    requestId: request.id !== undefined ? String(request.id) : undefined,
+  };
+});
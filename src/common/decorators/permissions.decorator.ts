@@ -0,0 +1,11 @@
+import { SetMetadata, createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Permission } from '../permissions/permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+export const RequirePermissions = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_KEY, permissions);
+
+// Permissions resolved by PermissionsGuard for the current request
+export const GrantedPermissions = createParamDecorator((_data: unknown, context: ExecutionContext): Permission[] => {
+  const request = context.switchToHttp().getRequest();
+  return request.permissions || [];
+});
@@ -0,0 +1,18 @@
+import { SetMetadata, createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { SellerPermission } from '@prisma/client';
+
+export { SellerPermission } from '@prisma/client';
+
+export interface SellerContext {
+  sellerId: string;
+  isOwner: boolean;
+  permissions: SellerPermission[];
+}
+
+export const SELLER_SCOPE_KEY = 'sellerScope';
+export const SellerScope = (...permissions: SellerPermission[]) => SetMetadata(SELLER_SCOPE_KEY, permissions);
+
+// The seller account the request acts on, resolved by SellerContextGuard
+export const CurrentSeller = createParamDecorator((_data: unknown, context: ExecutionContext): SellerContext => {
+  return context.switchToHttp().getRequest().seller;
+});
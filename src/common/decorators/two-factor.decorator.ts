@@ -0,0 +1,4 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const TWO_FACTOR_KEY = 'requireTwoFactor';
+export const RequireTwoFactor = () => SetMetadata(TWO_FACTOR_KEY, true);
@@ -1,15 +1,17 @@
 import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
 
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
   constructor(
     private jwtService: JwtService,
     private config: ConfigService,
+    private prisma: PrismaService,
   ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const authHeader = request.headers.authorization;
 
@@ -26,16 +28,31 @@ export class JwtAuthGuard implements CanActivate {
       throw new UnauthorizedException('Invalid authorization format');
     }
 
+    let payload: any;
     try {
-      const payload = this.jwtService.verify(token, {
+      payload = this.jwtService.verify(token, {
         secret: this.config.get('JWT_SECRET'),
       });
-      console.log('JWT Guard - Success, user:', payload.email || payload.sub);
-      request.user = payload;
-      return true;
     } catch (error) {
       console.log('JWT Guard - Error: Invalid token', error.message);
       throw new UnauthorizedException('Invalid token');
     }
+
+    // Tokens are bound to a session so logout and suspension take effect immediately
+    const session = payload.sid
+      ? await this.prisma.session.findUnique({
+          where: { id: payload.sid },
+          select: { revokedAt: true, expiresAt: true },
+        })
+      : null;
+
+    if (!session || session.revokedAt || session.expiresAt.getTime() < Date.now()) {
+      console.log('JWT Guard - Error: Session revoked or expired, user:', payload.email || payload.sub);
+      throw new UnauthorizedException('Session expired. Please log in again.');
+    }
+
+    console.log('JWT Guard - Success, user:', payload.email || payload.sub);
+    request.user = payload;
+    return true;
   }
 }
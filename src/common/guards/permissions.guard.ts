@@ -0,0 +1,37 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PrismaService } from '../prisma/prisma.service';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { Permission, resolvePermissions } from '../permissions/permissions';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    const request = context.switchToHttp().getRequest();
+
+    // Looked up per request rather than read from the JWT so role edits apply at once
+    const user = await this.prisma.user.findUnique({
+      where: { id: request.user.sub },
+      select: { role: true, accessRoles: { select: { permissions: true } } },
+    });
+    const granted = user ? resolvePermissions(user) : [];
+    request.permissions = granted;
+
+    const missing = (required || []).filter((permission) => !granted.includes(permission));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Missing permission: ${missing.join(', ')}`);
+    }
+
+    return true;
+  }
+}
@@ -1,10 +1,15 @@
-import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { ROLES_KEY, UserRole } from '../decorators/roles.decorator';
+import { TWO_FACTOR_KEY } from '../decorators/two-factor.decorator';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private config: ConfigService,
+  ) {}
 
   canActivate(context: ExecutionContext): boolean {
     const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
@@ -17,6 +22,20 @@ export class RolesGuard implements CanActivate {
     }
 
     const { user } = context.switchToHttp().getRequest();
-    return requiredRoles.some((role) => user.role === role);
+    if (!requiredRoles.some((role) => user.role === role)) {
+      return false;
+    }
+
+    // Routes marked with @RequireTwoFactor need a session that passed the TOTP
+    // step. Enforcement is opt-in so admins can enroll before it is switched on.
+    const requireTwoFactor = this.reflector.getAllAndOverride<boolean>(TWO_FACTOR_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (requireTwoFactor && this.config.get('ENFORCE_ADMIN_2FA') === 'true' && !user.mfa) {
+      throw new ForbiddenException('Two-factor authentication is required for this action');
+    }
+
+    return true;
   }
 }
@@ -0,0 +1,60 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SellerPermission, TeamMemberStatus, UserRole, UserStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { SELLER_SCOPE_KEY, SellerContext } from '../decorators/seller-scope.decorator';
+
+/**
+ * Replaces RolesGuard on seller routes. Users whose role is listed in @Roles
+ * (SELLER by default) act on their own account; anyone else needs an active
+ * team membership holding every permission listed in @SellerScope.
+ */
+@Injectable()
+export class SellerContextGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, targets) || [UserRole.SELLER];
+    const required = this.reflector.getAllAndOverride<SellerPermission[]>(SELLER_SCOPE_KEY, targets) || [];
+
+    const request = context.switchToHttp().getRequest();
+    const { user } = request;
+
+    if (roles.includes(user.role)) {
+      request.seller = {
+        sellerId: user.sub,
+        isOwner: true,
+        permissions: Object.values(SellerPermission),
+      } as SellerContext;
+      return true;
+    }
+
+    const membership = await this.prisma.sellerTeamMember.findFirst({
+      where: {
+        userId: user.sub,
+        status: TeamMemberStatus.ACTIVE,
+        seller: { role: UserRole.SELLER, status: { not: UserStatus.SUSPENDED } },
+      },
+    });
+    if (!membership) {
+      return false;
+    }
+
+    const missing = required.filter((permission) => !membership.permissions.includes(permission));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Your team role does not include: ${missing.join(', ')}`);
+    }
+
+    request.seller = {
+      sellerId: membership.sellerId,
+      isOwner: false,
+      permissions: membership.permissions,
+    } as SellerContext;
+    return true;
+  }
+}
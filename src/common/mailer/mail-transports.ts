@@ -0,0 +1,64 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Development: print the message to the application log
+export class ConsoleMailTransport implements MailTransport {
+  private logger = new Logger('Mailer');
+
+  async send(message: MailMessage & { from: string }) {
+    this.logger.log(`To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Development: write each message as an .eml file so links can be opened locally
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }) {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    const file = path.join(this.directory, `${Date.now()}-${slug}.eml`);
+
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\n');
+
+    await fs.promises.writeFile(file, content, 'utf8');
+  }
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }) {
+    await this.transporter.sendMail(message);
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MailMessage,
+  MailTransport,
+  ConsoleMailTransport,
+  FileMailTransport,
+  SmtpMailTransport,
+} from './mail-transports';
+
+@Injectable()
+export class MailerService {
+  private transport: MailTransport;
+  private from: string;
+
+  constructor(private config: ConfigService) {
+    this.from = this.config.get('MAIL_FROM') || 'Optical Market <no-reply@visaonaweb.com.br>';
+    this.transport = this.createTransport(this.config.get('MAIL_TRANSPORT') || 'console');
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: this.from });
+  }
+
+  private createTransport(name: string): MailTransport {
+    switch (name) {
+      case 'smtp':
+        return new SmtpMailTransport({
+          host: this.config.get('SMTP_HOST') || 'localhost',
+          port: Number(this.config.get('SMTP_PORT', 587)),
+          secure: this.config.get('SMTP_SECURE') === 'true',
+          user: this.config.get('SMTP_USER'),
+          pass: this.config.get('SMTP_PASSWORD'),
+        });
+      case 'file':
+        return new FileMailTransport(this.config.get('MAIL_FILE_DIR') || './tmp/mail');
+      case 'console':
+        return new ConsoleMailTransport();
+      default:
+        throw new Error(`Unknown MAIL_TRANSPORT "${name}" (expected smtp, file or console)`);
+    }
+  }
+}
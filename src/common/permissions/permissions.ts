@@ -0,0 +1,44 @@
+import { UserRole } from '@prisma/client';
+
+export const PERMISSIONS = {
+  USERS_READ: 'users:read',
+  USERS_MANAGE: 'users:manage',
+  USERS_ASSIGN_ROLES: 'users:assign-roles',
+  SELLERS_REVIEW: 'sellers:review',
+  ORDERS_READ: 'orders:read',
+  ORDERS_MANAGE: 'orders:manage',
+  ORDERS_REFUND: 'orders:refund',
+  PRODUCTS_READ: 'products:read',
+  PRODUCTS_MODERATE: 'products:moderate',
+  DASHBOARD_READ: 'dashboard:read',
+  AUDIT_READ: 'audit:read',
+  PRIVACY_MANAGE: 'privacy:manage',
+  ROLES_MANAGE: 'roles:manage',
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+// System role holding every permission; see AccessRolesService.ensureSuperAdminRole
+export const SUPER_ADMIN_ROLE = 'Super admin';
+
+export function isPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+/**
+ * Union of the permissions granted by the user's access roles. An admin with
+ * no access role has no permissions; full access comes from SUPER_ADMIN_ROLE.
+ */
+export function resolvePermissions(user: { role: UserRole; accessRoles: { permissions: string[] }[] }): Permission[] {
+  if (user.role !== UserRole.ADMIN) return [];
+
+  const granted = new Set<Permission>();
+  for (const role of user.accessRoles) {
+    for (const permission of role.permissions) {
+      if (isPermission(permission)) granted.add(permission);
+    }
+  }
+  return [...granted];
+}
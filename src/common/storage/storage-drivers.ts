@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+export interface PutOptions {
+  contentType: string;
+  cacheControl?: string;
+}
+
+export interface StoredObject {
+  key: string;
+  lastModified: Date;
+}
+
+export interface StorageDriver {
+  put(key: string, body: Buffer, options: PutOptions): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<StoredObject[]>;
+  publicUrl(key: string): string;
+  // URL the browser can PUT exactly `size` bytes of `contentType` to, valid for `expiresIn` seconds
+  signedUploadUrl(key: string, contentType: string, size: number, expiresIn: number): Promise<string>;
+}
+
+// Cloudflare R2 or any S3-compatible bucket
+export class S3StorageDriver implements StorageDriver {
+  private client: S3Client;
+
+  constructor(private options: {
+    endpoint?: string;
+    region: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    bucket: string;
+    publicUrl: string;
+  }) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
+    });
+  }
+
+  async put(key: string, body: Buffer, options: PutOptions) {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      CacheControl: options.cacheControl,
+    }));
+  }
+
+  async get(key: string): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+    }));
+    return response.Body as Readable;
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+    }));
+  }
+
+  async list(prefix: string) {
+    const objects: StoredObject[] = [];
+    let token: string | undefined;
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: prefix,
+        ContinuationToken: token,
+      }));
+      for (const object of response.Contents || []) {
+        if (object.Key && object.LastModified) objects.push({ key: object.Key, lastModified: object.LastModified });
+      }
+      token = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (token);
+    return objects;
+  }
+
+  publicUrl(key: string) {
+    return `${this.options.publicUrl}/${key}`;
+  }
+
+  // R2 has no presigned POST, so the size limit comes from signing Content-Length (and the type) into the PUT
+  signedUploadUrl(key: string, contentType: string, size: number, expiresIn: number) {
+    return getSignedUrl(
+      this.client,
+      new PutObjectCommand({ Bucket: this.options.bucket, Key: key, ContentType: contentType, ContentLength: size }),
+      { expiresIn, signableHeaders: new Set(['content-type', 'content-length']) },
+    );
+  }
+}
+
+// Development: files under a local directory, served and accepted by StorageController
+export class LocalStorageDriver implements StorageDriver {
+  constructor(
+    private directory: string,
+    private baseUrl: string,
+    private signUpload: (key: string, contentType: string, size: number, expiresIn: number) => string,
+  ) {}
+
+  async put(key: string, body: Buffer) {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, body);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const file = this.resolve(key);
+    await fs.promises.access(file);
+    return fs.createReadStream(file);
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async list(prefix: string) {
+    const objects: StoredObject[] = [];
+    const root = path.resolve(this.directory);
+    const walk = async (directory: string) => {
+      const entries = await fs.promises.readdir(directory, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const file = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          await walk(file);
+        } else if (entry.isFile()) {
+          const { mtime } = await fs.promises.stat(file);
+          objects.push({ key: path.relative(root, file).split(path.sep).join('/'), lastModified: mtime });
+        }
+      }
+    };
+    await walk(path.join(root, prefix));
+    return objects;
+  }
+
+  publicUrl(key: string) {
+    return `${this.baseUrl}/api/storage/files/${key}`;
+  }
+
+  async signedUploadUrl(key: string, contentType: string, size: number, expiresIn: number) {
+    return `${this.baseUrl}/api/storage/uploads/${this.signUpload(key, contentType, size, expiresIn)}`;
+  }
+
+  // Never let a key escape the storage directory or resolve to a different key than it reads as
+  private resolve(key: string) {
+    const root = path.resolve(this.directory);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep) || path.relative(root, file).split(path.sep).join('/') !== key) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+}
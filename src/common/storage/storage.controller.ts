@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Request,
+  UseGuards,
+  NotFoundException,
+  BadRequestException,
+  StreamableFile,
+} from '@nestjs/common';
+import { IsInt, IsString, Min } from 'class-validator';
+import { extname } from 'path';
+import { StorageService } from './storage.service';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { SellerContextGuard } from '../guards/seller-context.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { SellerScope, SellerPermission, CurrentSeller, SellerContext } from '../decorators/seller-scope.decorator';
+import { detectFileType } from '../uploads/file-signatures';
+import { UploadException } from '../uploads/upload-rules';
+
+export class CreateUploadUrlDto {
+  @IsString()
+  contentType: string;
+
+  // Exact size in bytes; the upload URL only accepts a body of this length
+  @IsInt()
+  @Min(1)
+  size: number;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.pdf': 'application/pdf',
+};
+
+@Controller('storage')
+export class StorageController {
+  constructor(private storageService: StorageService) {}
+
+  // Product photos only; they are attached with POST /products/:id/images/direct
+  @Post('upload-url')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  createUploadUrl(@CurrentSeller() seller: SellerContext, @Body() dto: CreateUploadUrlDto) {
+    return this.storageService.createDirectUpload(seller.sellerId, dto.contentType, dto.size);
+  }
+
+  // ============ LOCAL DRIVER ============
+  // With R2/S3 the browser talks to the bucket directly and these routes are disabled
+
+  @Get('files/*')
+  async getFile(@Param('0') key: string) {
+    if (this.storageService.driverName !== 'local' || !this.storageService.isPublicKey(key)) {
+      throw new NotFoundException('File not found');
+    }
+
+    const stream = await this.storageService.get(key).catch(() => {
+      throw new NotFoundException('File not found');
+    });
+    return new StreamableFile(stream, {
+      type: CONTENT_TYPES[extname(key).toLowerCase()] || 'application/octet-stream',
+    });
+  }
+
+  @Put('uploads/:token')
+  async upload(@Param('token') token: string, @Request() req: any) {
+    if (this.storageService.driverName !== 'local') {
+      throw new NotFoundException();
+    }
+
+    const { key, contentType, size: expectedSize } = this.storageService.verifyUploadToken(token);
+    if (req.headers['content-type'] !== contentType) {
+      throw new BadRequestException(`Content-Type must be ${contentType}`);
+    }
+
+    // Same contract as the signed Content-Length of a bucket upload
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > expectedSize) {
+        throw new UploadException('FILE_TOO_LARGE', `This upload URL accepts ${expectedSize} bytes`, {
+          maxBytes: expectedSize,
+        });
+      }
+      chunks.push(chunk);
+    }
+    if (size !== expectedSize) {
+      throw new BadRequestException(`This upload URL accepts exactly ${expectedSize} bytes`);
+    }
+
+    const body = Buffer.concat(chunks);
+    if (detectFileType(body)?.mimeType !== contentType) {
+      throw new UploadException('FILE_CONTENT_MISMATCH', `The uploaded file is not a valid ${contentType} file`, {
+        allowed: [contentType],
+      });
+    }
+
+    await this.storageService.put(key, body, { contentType });
+    return { key };
+  }
+}
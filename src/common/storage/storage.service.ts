@@ -0,0 +1,263 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StorageDriver, PutOptions, S3StorageDriver, LocalStorageDriver } from './storage-drivers';
+import { UPLOAD_RULES, UploadException } from '../uploads/upload-rules';
+
+// Where multer writes uploads before they are processed and moved to storage
+export const UPLOAD_TMP_DIR = './uploads';
+
+// Key prefixes that may be read without authentication; everything else (KYC, prescriptions,
+// unprocessed direct uploads) is private
+const PUBLIC_PREFIXES = ['image/'];
+
+const DIRECT_UPLOAD_PREFIX = 'direct/';
+// Direct uploads become product images, so they share that limit
+const MAX_DIRECT_UPLOAD_BYTES = UPLOAD_RULES.productImage.maxBytes;
+
+const DIRECT_UPLOAD_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+};
+
+// Relative path made of real segments only: no `.`/`..`, empty segments or backslashes
+function isPlainKey(key: string) {
+  return !key.includes('\\') && key.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+@Injectable()
+export class StorageService {
+  private logger = new Logger('Storage');
+  private driver: StorageDriver;
+  readonly driverName: string;
+
+  constructor(private config: ConfigService) {
+    this.driverName = this.config.get('STORAGE_DRIVER') || (this.config.get('R2_BUCKET_NAME') ? 'r2' : 'local');
+    this.driver = this.createDriver(this.driverName);
+  }
+
+  async put(key: string, body: Buffer, options: PutOptions) {
+    await this.driver.put(key, body, options);
+  }
+
+  // Moves a multer temp file into storage; the temp file is removed even when the upload fails
+  async putFile(file: Express.Multer.File, key: string) {
+    try {
+      await this.driver.put(key, await fs.promises.readFile(file.path), { contentType: file.mimetype });
+    } finally {
+      await this.removeTempFile(file);
+    }
+  }
+
+  get(key: string): Promise<Readable> {
+    return this.driver.get(key);
+  }
+
+  // Best effort: a leftover object is preferable to failing the user's request
+  async delete(key: string) {
+    try {
+      await this.driver.delete(key);
+    } catch (error) {
+      this.logger.error(`Failed to delete ${key}: ${error.message}`);
+    }
+  }
+
+  publicUrl(key: string) {
+    return this.driver.publicUrl(key);
+  }
+
+  // Inverse of publicUrl, for images that were stored by URL only
+  keyFromPublicUrl(url: string): string | null {
+    const prefix = this.driver.publicUrl('');
+    return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+
+  // Checked on the raw key: `image/../kyc/...` must not pass as an image
+  isPublicKey(key: string) {
+    return isPlainKey(key) && PUBLIC_PREFIXES.some((prefix) => key.startsWith(prefix));
+  }
+
+  async removeTempFile(file: Express.Multer.File | undefined) {
+    if (file?.path) {
+      await fs.promises.rm(file.path, { force: true });
+    }
+  }
+
+  /**
+   * Reserves a key for a seller's browser upload of exactly `size` bytes and
+   * returns where to PUT the file. The object stays private: it becomes a
+   * product image only after ProductImagesService.attachDirectUploads has
+   * validated and processed it. Unclaimed uploads are removed hourly.
+   */
+  async createDirectUpload(sellerId: string, contentType: string, size: number) {
+    const extension = DIRECT_UPLOAD_TYPES[contentType];
+    if (!extension) {
+      throw new BadRequestException(`Direct uploads accept ${Object.keys(DIRECT_UPLOAD_TYPES).join(', ')}`);
+    }
+    if (size > MAX_DIRECT_UPLOAD_BYTES) {
+      throw new UploadException('FILE_TOO_LARGE', `Uploads are limited to ${MAX_DIRECT_UPLOAD_BYTES / 1024 / 1024}MB`, {
+        maxBytes: MAX_DIRECT_UPLOAD_BYTES,
+      });
+    }
+
+    const expiresIn = this.directUploadTtl();
+    const key = `${DIRECT_UPLOAD_PREFIX}${sellerId}/${randomUUID()}${extension}`;
+
+    return {
+      key,
+      method: 'PUT',
+      uploadUrl: await this.driver.signedUploadUrl(key, contentType, size, expiresIn),
+      // The browser sets Content-Length itself; it must match `size`
+      headers: { 'Content-Type': contentType },
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    };
+  }
+
+  /**
+   * Copies a seller's direct upload into a multer-style temp file so it goes
+   * through the same checks and processing as a multipart upload.
+   */
+  async directUploadToTempFile(key: string, sellerId: string): Promise<Express.Multer.File> {
+    if (!isPlainKey(key) || !key.startsWith(`${DIRECT_UPLOAD_PREFIX}${sellerId}/`)) {
+      throw new BadRequestException(`Unknown upload: ${key}`);
+    }
+
+    const source = await this.driver.get(key).catch(() => {
+      throw new BadRequestException(`Upload ${key} was not found; it may have expired`);
+    });
+    const filename = `${randomUUID()}${path.extname(key)}`;
+    const file = path.join(UPLOAD_TMP_DIR, filename);
+    await fs.promises.mkdir(UPLOAD_TMP_DIR, { recursive: true });
+    await pipeline(source, fs.createWriteStream(file));
+
+    const { size } = await fs.promises.stat(file);
+    return {
+      fieldname: 'keys',
+      originalname: path.basename(key),
+      encoding: '7bit',
+      // Set from the content by validation
+      mimetype: '',
+      size,
+      destination: UPLOAD_TMP_DIR,
+      filename,
+      path: file,
+    } as Express.Multer.File;
+  }
+
+  // Checks a local upload token issued by createDirectUpload
+  verifyUploadToken(token: string): { key: string; contentType: string; size: number } {
+    const [payload, signature] = token.split('.');
+    const expected = payload && this.sign(payload);
+    if (!signature || !expected || signature.length !== expected.length ||
+        !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new BadRequestException('Invalid upload token');
+    }
+
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (data.exp < Date.now()) {
+      throw new BadRequestException('Upload token expired');
+    }
+    return { key: data.key, contentType: data.contentType, size: data.size };
+  }
+
+  // Direct uploads nobody attached to a product; their upload URL expired long ago
+  @Cron(CronExpression.EVERY_HOUR)
+  async removeStaleDirectUploads() {
+    const maxAge = (this.directUploadTtl() + 60 * 60) * 1000;
+
+    let removed = 0;
+    try {
+      for (const object of await this.driver.list(DIRECT_UPLOAD_PREFIX)) {
+        if (Date.now() - object.lastModified.getTime() > maxAge) {
+          await this.delete(object.key);
+          removed++;
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to list direct uploads: ${error.message}`);
+    }
+    if (removed > 0) {
+      this.logger.log(`Removed ${removed} unclaimed direct upload(s)`);
+    }
+  }
+
+  /**
+   * Removes multer temp files older than UPLOAD_TMP_MAX_AGE_MINUTES. They are
+   * normally deleted right after being stored, but a crash or a failed request
+   * in between leaves them behind.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async removeStaleTempFiles() {
+    const maxAge = parseInt(this.config.get('UPLOAD_TMP_MAX_AGE_MINUTES', '60'), 10) * 60 * 1000;
+
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(UPLOAD_TMP_DIR);
+    } catch {
+      return;
+    }
+
+    let removed = 0;
+    for (const entry of entries) {
+      const file = path.join(UPLOAD_TMP_DIR, entry);
+      const stat = await fs.promises.stat(file).catch(() => null);
+      if (stat?.isFile() && Date.now() - stat.mtimeMs > maxAge) {
+        await fs.promises.rm(file, { force: true });
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.logger.log(`Removed ${removed} stale upload(s) from ${UPLOAD_TMP_DIR}`);
+    }
+  }
+
+  private directUploadTtl() {
+    return parseInt(this.config.get('STORAGE_UPLOAD_URL_TTL_SECONDS', '600'), 10);
+  }
+
+  private signUpload(key: string, contentType: string, size: number, expiresIn: number) {
+    const payload = Buffer.from(JSON.stringify({ key, contentType, size, exp: Date.now() + expiresIn * 1000 })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  private sign(payload: string) {
+    return createHmac('sha256', this.config.get('JWT_SECRET') || '').update(payload).digest('base64url');
+  }
+
+  private createDriver(name: string): StorageDriver {
+    switch (name) {
+      case 'r2':
+        return new S3StorageDriver({
+          endpoint: this.config.get('R2_ENDPOINT'),
+          region: 'auto',
+          accessKeyId: this.config.get('R2_ACCESS_KEY_ID') || '',
+          secretAccessKey: this.config.get('R2_SECRET_ACCESS_KEY') || '',
+          bucket: this.config.get('R2_BUCKET_NAME') || '',
+          publicUrl: this.config.get('R2_PUBLIC_URL') || '',
+        });
+      case 's3':
+        return new S3StorageDriver({
+          endpoint: this.config.get('S3_ENDPOINT'),
+          region: this.config.get('S3_REGION') || 'us-east-1',
+          accessKeyId: this.config.get('S3_ACCESS_KEY_ID') || '',
+          secretAccessKey: this.config.get('S3_SECRET_ACCESS_KEY') || '',
+          bucket: this.config.get('S3_BUCKET_NAME') || '',
+          publicUrl: this.config.get('S3_PUBLIC_URL') || '',
+        });
+      case 'local':
+        return new LocalStorageDriver(
+          this.config.get('LOCAL_STORAGE_DIR') || './storage',
+          this.config.get('API_URL') || `http://localhost:${this.config.get('PORT') || 3000}`,
+          (key, contentType, size, expiresIn) => this.signUpload(key, contentType, size, expiresIn),
+        );
+      default:
+        throw new Error(`Unknown STORAGE_DRIVER "${name}" (expected r2, s3 or local)`);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Leading bytes of each accepted format; the client-supplied mimetype is not trusted
+const SIGNATURES: { mimeType: string; extension: string; matches: (bytes: Buffer) => boolean }[] = [
+  {
+    mimeType: 'image/jpeg',
+    extension: '.jpg',
+    matches: (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+  },
+  {
+    mimeType: 'image/png',
+    extension: '.png',
+    matches: (bytes) => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  {
+    mimeType: 'image/gif',
+    extension: '.gif',
+    matches: (bytes) => ['GIF87a', 'GIF89a'].includes(bytes.subarray(0, 6).toString('latin1')),
+  },
+  {
+    mimeType: 'image/webp',
+    extension: '.webp',
+    matches: (bytes) => bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+  {
+    mimeType: 'application/pdf',
+    extension: '.pdf',
+    matches: (bytes) => bytes.subarray(0, 5).toString('latin1') === '%PDF-',
+  },
+  {
+    // XLSX is a ZIP container; anything else zipped fails when the workbook is parsed
+    mimeType: XLSX_MIME_TYPE,
+    extension: '.xlsx',
+    matches: (bytes) => bytes.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04])),
+  },
+  {
+    // Text has no signature: checked last, accepted when the leading bytes hold no binary control characters
+    mimeType: 'text/csv',
+    extension: '.csv',
+    matches: (bytes) => bytes.length > 0 && !bytes.some((byte) => byte < 0x09 || (byte > 0x0d && byte < 0x20) || byte === 0x7f),
+  },
+];
+
+// Enough bytes for every signature above
+export const SIGNATURE_LENGTH = 12;
+
+export function detectFileType(bytes: Buffer): { mimeType: string; extension: string } | null {
+  const match = SIGNATURES.find((signature) => signature.matches(bytes));
+  return match ? { mimeType: match.mimeType, extension: match.extension } : null;
+}
+
+export function extensionFor(mimeType: string): string {
+  return SIGNATURES.find((signature) => signature.mimeType === mimeType)?.extension || '';
+}
+
+/**
+ * Display name for a user-supplied file: no directories, control characters or
+ * quotes (it ends up in Content-Disposition headers), and a bounded length.
+ */
+export function sanitizeFileName(name: string | undefined, fallback = 'file'): string {
+  const base = (name || '').split(/[\\/]/).pop() || '';
+  const clean = base
+    .normalize('NFC')
+    .replace(/[\u0000-\u001f\u007f"<>|:*?]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[.\s]+/, '')
+    .trim();
+  if (!clean) return fallback;
+
+  if (clean.length <= 120) return clean;
+  const dot = clean.lastIndexOf('.');
+  const extension = dot > 0 && clean.length - dot <= 10 ? clean.slice(dot) : '';
+  return clean.slice(0, 120 - extension.length) + extension;
+}
@@ -0,0 +1,70 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { XLSX_MIME_TYPE } from './file-signatures';
+
+export interface UploadRule {
+  mimeTypes: string[];
+  maxBytes: number;
+  // Shown in error messages instead of the list of MIME types
+  label?: string;
+  // Only checked for images; PDFs have no pixel size
+  minDimension?: number;
+  maxDimension?: number;
+}
+
+const MB = 1024 * 1024;
+
+export const UPLOAD_RULES = {
+  // The minimum size of product photos is enforced by ImageProcessingService (PRODUCT_IMAGE_MIN_SIZE)
+  productImage: {
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+    maxBytes: 10 * MB,
+    maxDimension: 8000,
+  },
+  // Scanned documents must stay legible: KYC papers and prescriptions
+  document: {
+    mimeTypes: ['application/pdf', 'image/jpeg', 'image/png'],
+    maxBytes: 10 * MB,
+    minDimension: 600,
+    maxDimension: 10000,
+  },
+  // Bulk product imports; browsers report CSV under several types, the content decides
+  spreadsheet: {
+    mimeTypes: ['text/csv', 'text/plain', 'application/vnd.ms-excel', XLSX_MIME_TYPE],
+    maxBytes: 5 * MB,
+    label: 'CSV or XLSX',
+  },
+} satisfies Record<string, UploadRule>;
+
+export type UploadErrorCode =
+  | 'FILE_REQUIRED'
+  | 'FILE_TOO_LARGE'
+  | 'TOO_MANY_FILES'
+  | 'UNEXPECTED_FIELD'
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'FILE_CONTENT_MISMATCH'
+  | 'IMAGE_TOO_SMALL'
+  | 'IMAGE_TOO_LARGE'
+  | 'UNREADABLE_IMAGE';
+
+const STATUS_BY_CODE: Record<UploadErrorCode, HttpStatus> = {
+  FILE_REQUIRED: HttpStatus.BAD_REQUEST,
+  FILE_TOO_LARGE: HttpStatus.PAYLOAD_TOO_LARGE,
+  TOO_MANY_FILES: HttpStatus.BAD_REQUEST,
+  UNEXPECTED_FIELD: HttpStatus.BAD_REQUEST,
+  UNSUPPORTED_FILE_TYPE: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+  FILE_CONTENT_MISMATCH: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+  IMAGE_TOO_SMALL: HttpStatus.UNPROCESSABLE_ENTITY,
+  IMAGE_TOO_LARGE: HttpStatus.UNPROCESSABLE_ENTITY,
+  UNREADABLE_IMAGE: HttpStatus.UNPROCESSABLE_ENTITY,
+};
+
+/**
+ * Upload failures share one body shape so clients can branch on `code`:
+ * `{ statusCode, code, message, field?, fileName?, ...limits }`.
+ */
+export class UploadException extends HttpException {
+  constructor(code: UploadErrorCode, message: string, details: Record<string, unknown> = {}) {
+    const statusCode = STATUS_BY_CODE[code];
+    super({ statusCode, code, message, ...details }, statusCode);
+  }
+}
@@ -0,0 +1,152 @@
+import { BadRequestException, CallHandler, ExecutionContext, Injectable, NestInterceptor, Type, mixin } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as multer from 'multer';
+import * as sharp from 'sharp';
+import { UPLOAD_TMP_DIR } from '../storage/storage.service';
+import { detectFileType, extensionFor, sanitizeFileName, SIGNATURE_LENGTH } from './file-signatures';
+import { UploadException, UploadRule } from './upload-rules';
+
+/**
+ * Multipart upload for `field` (one file, or up to `maxCount` as an array),
+ * checked against `rule`: declared type and size while streaming, then the
+ * actual content signature and image dimensions once on disk. Rejected files
+ * are removed before the error is returned.
+ */
+export function UploadInterceptor(field: string, rule: UploadRule, maxCount = 1): Type<NestInterceptor> {
+  @Injectable()
+  class Interceptor implements NestInterceptor {
+    private upload = multer({
+      storage: multer.diskStorage({
+        destination: UPLOAD_TMP_DIR,
+        // Never derived from the client's filename
+        filename: (_req, file, cb) => cb(null, `${randomUUID()}${extensionFor(file.mimetype)}`),
+      }),
+      limits: { fileSize: rule.maxBytes, files: maxCount },
+      fileFilter: (_req, file, cb) => {
+        if (!rule.mimeTypes.includes(file.mimetype)) {
+          return cb(new UploadException('UNSUPPORTED_FILE_TYPE', `Only ${describeTypes(rule)} files are allowed`, {
+            field,
+            fileName: sanitizeFileName(file.originalname),
+            allowed: rule.mimeTypes,
+          }));
+        }
+        cb(null, true);
+      },
+    });
+
+    async intercept(context: ExecutionContext, next: CallHandler) {
+      const http = context.switchToHttp();
+      const request = http.getRequest();
+      const handler = maxCount > 1 ? this.upload.array(field, maxCount) : this.upload.single(field);
+
+      await new Promise<void>((resolve, reject) =>
+        handler(request, http.getResponse(), (error: any) => (error ? reject(toUploadException(error, field, rule, maxCount)) : resolve())),
+      );
+
+      const files: Express.Multer.File[] = maxCount > 1 ? request.files || [] : request.file ? [request.file] : [];
+      try {
+        for (const file of files) {
+          await validateUploadedFile(file, field, rule);
+        }
+      } catch (error) {
+        await Promise.all(files.map((file) => fs.promises.rm(file.path, { force: true })));
+        throw error;
+      }
+
+      return next.handle();
+    }
+  }
+
+  return mixin(Interceptor);
+}
+
+// Also used for files that reach the API another way (browser uploads straight to storage)
+export async function validateUploadedFile(file: Express.Multer.File, field: string, rule: UploadRule) {
+  file.originalname = sanitizeFileName(file.originalname);
+
+  const handle = await fs.promises.open(file.path, 'r');
+  const header = Buffer.alloc(SIGNATURE_LENGTH);
+  let bytesRead: number;
+  try {
+    ({ bytesRead } = await handle.read(header, 0, SIGNATURE_LENGTH, 0));
+  } finally {
+    await handle.close();
+  }
+
+  const detected = detectFileType(header.subarray(0, bytesRead));
+  if (!detected || !rule.mimeTypes.includes(detected.mimeType)) {
+    throw new UploadException('FILE_CONTENT_MISMATCH', `${file.originalname} is not a valid ${describeTypes(rule)} file`, {
+      field,
+      fileName: file.originalname,
+      allowed: rule.mimeTypes,
+    });
+  }
+  // Downstream code (storage content type, processing) relies on the real type
+  file.mimetype = detected.mimeType;
+
+  if (!detected.mimeType.startsWith('image/') || (!rule.minDimension && !rule.maxDimension)) {
+    return;
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(file.path).metadata();
+  } catch {
+    throw new UploadException('UNREADABLE_IMAGE', `${file.originalname} could not be read as an image`, {
+      field,
+      fileName: file.originalname,
+    });
+  }
+
+  const width = metadata.width || 0;
+  const height = metadata.height || 0;
+  if (rule.minDimension && Math.min(width, height) < rule.minDimension) {
+    throw new UploadException('IMAGE_TOO_SMALL', `${file.originalname} is ${width}x${height}px; the minimum is ${rule.minDimension}px on each side`, {
+      field,
+      fileName: file.originalname,
+      width,
+      height,
+      minDimension: rule.minDimension,
+    });
+  }
+  if (rule.maxDimension && Math.max(width, height) > rule.maxDimension) {
+    throw new UploadException('IMAGE_TOO_LARGE', `${file.originalname} is ${width}x${height}px; the maximum is ${rule.maxDimension}px on each side`, {
+      field,
+      fileName: file.originalname,
+      width,
+      height,
+      maxDimension: rule.maxDimension,
+    });
+  }
+}
+
+function toUploadException(error: any, field: string, rule: UploadRule, maxCount: number) {
+  if (error instanceof UploadException) return error;
+
+  switch (error?.code) {
+    case 'LIMIT_FILE_SIZE':
+      return new UploadException('FILE_TOO_LARGE', `Files are limited to ${rule.maxBytes / 1024 / 1024}MB`, {
+        field,
+        maxBytes: rule.maxBytes,
+      });
+    case 'LIMIT_FILE_COUNT':
+      return new UploadException('TOO_MANY_FILES', `At most ${maxCount} file(s) can be uploaded at once`, {
+        field,
+        maxCount,
+      });
+    case 'LIMIT_UNEXPECTED_FILE':
+      return new UploadException('UNEXPECTED_FIELD', `Files must be sent in the "${field}" field`, {
+        field: error.field,
+        expected: field,
+      });
+    default:
+      // Other multer errors are malformed requests; anything else (e.g. disk) stays a 500
+      return error instanceof multer.MulterError ? new BadRequestException(error.message) : error;
+  }
+}
+
+function describeTypes(rule: UploadRule) {
+  if (rule.label) return rule.label;
+  return rule.mimeTypes.map((type) => type.split('/')[1].toUpperCase()).join(', ');
+}
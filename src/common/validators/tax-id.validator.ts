@@ -0,0 +1,58 @@
+import { ValidateBy, ValidationOptions, buildMessage } from 'class-validator';
+
+export function onlyDigits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+// Modulo 11 check digit used by both CPF and CNPJ
+function checkDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce((acc, weight, i) => acc + Number(digits[i]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+export function isValidCpf(value: string): boolean {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) return false;
+
+  const first = checkDigit(cpf, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(cpf, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(cpf[9]) && second === Number(cpf[10]);
+}
+
+export function isValidCnpj(value: string): boolean {
+  const cnpj = onlyDigits(value);
+  if (cnpj.length !== 14 || /^(\d)\1{13}$/.test(cnpj)) return false;
+
+  const first = checkDigit(cnpj, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(cnpj, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(cnpj[12]) && second === Number(cnpj[13]);
+}
+
+// Accepts formatted (000.000.000-00) or digits-only input
+export function IsCpf(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isCpf',
+      validator: {
+        validate: (value) => typeof value === 'string' && isValidCpf(value),
+        defaultMessage: buildMessage((prefix) => `${prefix}$property must be a valid CPF`, validationOptions),
+      },
+    },
+    validationOptions,
+  );
+}
+
+// Accepts formatted (00.000.000/0000-00) or digits-only input
+export function IsCnpj(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isCnpj',
+      validator: {
+        validate: (value) => typeof value === 'string' && isValidCnpj(value),
+        defaultMessage: buildMessage((prefix) => `${prefix}$property must be a valid CNPJ`, validationOptions),
+      },
+    },
+    validationOptions,
+  );
+}
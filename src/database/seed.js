@@ -1,5 +1,7 @@
 const { PrismaClient } = require('@prisma/client');
 const bcrypt = require('bcrypt');
+// Compiled by `nest build`, which the seed script runs first
+const { ALL_PERMISSIONS, SUPER_ADMIN_ROLE } = require('../../dist/common/permissions/permissions');
 
 const prisma = new PrismaClient();
 
@@ -15,10 +17,60 @@ async function main() {
       name: 'Admin User',
       role: 'ADMIN',
       status: 'ACTIVE',
+      emailVerifiedAt: new Date(),
     },
   });
 
   console.log('Admin user created:', admin.email);
+
+  // Full access comes from the system role the app keeps in sync at boot
+  // (AccessRolesService.ensureSuperAdminRole), so share its name and permissions
+  const superAdmin = await prisma.accessRole.upsert({
+    where: { name: SUPER_ADMIN_ROLE },
+    update: { permissions: ALL_PERMISSIONS },
+    create: { name: SUPER_ADMIN_ROLE, description: 'Every permission', permissions: ALL_PERMISSIONS, isSystem: true },
+  });
+
+  // Earlier seeds created a separate 'Super Admin' role that was never kept in sync
+  const legacy = await prisma.accessRole.findUnique({
+    where: { name: 'Super Admin' },
+    include: { users: { select: { id: true } } },
+  });
+  if (legacy && legacy.id !== superAdmin.id) {
+    for (const user of legacy.users) {
+      await prisma.user.update({ where: { id: user.id }, data: { accessRoles: { connect: { id: superAdmin.id } } } });
+    }
+    await prisma.accessRole.delete({ where: { id: legacy.id } });
+  }
+
+  await prisma.user.update({
+    where: { id: admin.id },
+    data: { accessRoles: { connect: { id: superAdmin.id } } },
+  });
+
+  // Starting points for custom roles; admins may edit them, so a re-seed leaves them alone
+  const accessRoles = [
+    {
+      name: 'Support',
+      description: 'Customer support: look up users and orders, unlock accounts',
+      permissions: ['users:read', 'users:manage', 'orders:read', 'orders:manage', 'products:read', 'dashboard:read'],
+    },
+    {
+      name: 'Moderator',
+      description: 'Catalogue moderation and seller document review',
+      permissions: ['products:read', 'products:moderate', 'sellers:review', 'users:read'],
+    },
+  ];
+
+  for (const role of accessRoles) {
+    await prisma.accessRole.upsert({
+      where: { name: role.name },
+      update: {},
+      create: role,
+    });
+  }
+
+  console.log('Access roles created:', [SUPER_ADMIN_ROLE, ...accessRoles.map((role) => role.name)].join(', '));
 }
 
 main()
@@ -7,14 +7,14 @@ export class AddressService {
 
   async findAll(userId: string) {
     return this.prisma.address.findMany({
-      where: { userId },
+      where: { userId, deletedAt: null },
       orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }],
     });
   }
 
   async findOne(id: string, userId: string) {
     const address = await this.prisma.address.findFirst({
-      where: { id, userId },
+      where: { id, userId, deletedAt: null },
     });
     if (!address) {
       throw new NotFoundException('Address not found');
@@ -79,8 +79,34 @@ export class AddressService {
     });
   }
 
+  // Soft delete: orders shipped to this address keep showing it
   async remove(id: string, userId: string) {
-    await this.findOne(id, userId);
-    return this.prisma.address.delete({ where: { id } });
+    const address = await this.findOne(id, userId);
+
+    const removed = await this.prisma.address.update({
+      where: { id },
+      data: { deletedAt: new Date(), isDefault: false },
+    });
+
+    // The most recent remaining address becomes the default
+    if (address.isDefault) {
+      const next = await this.prisma.address.findFirst({
+        where: { userId, deletedAt: null },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (next) {
+        await this.prisma.address.update({ where: { id: next.id }, data: { isDefault: true } });
+      }
+    }
+
+    return removed;
+  }
+
+  async restore(id: string) {
+    const address = await this.prisma.address.findUnique({ where: { id } });
+    if (!address || !address.deletedAt) {
+      throw new NotFoundException('Deleted address not found');
+    }
+    return this.prisma.address.update({ where: { id }, data: { deletedAt: null } });
   }
 }
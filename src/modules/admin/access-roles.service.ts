@@ -0,0 +1,226 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException, ForbiddenException, OnModuleInit } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+import { ALL_PERMISSIONS, Permission, SUPER_ADMIN_ROLE, isPermission, resolvePermissions } from '../../common/permissions/permissions';
+
+@Injectable()
+export class AccessRolesService implements OnModuleInit {
+  private logger = new Logger('AccessRoles');
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  async onModuleInit() {
+    await this.ensureSuperAdminRole();
+  }
+
+  /**
+   * Admins without access roles used to have full access. That now takes the
+   * SUPER_ADMIN_ROLE system role: the boot that creates it hands it to every
+   * admin without roles, later boots leave assignments alone so clearing an
+   * admin's roles really removes their access.
+   */
+  private async ensureSuperAdminRole() {
+    const existing = await this.prisma.accessRole.findUnique({ where: { name: SUPER_ADMIN_ROLE } });
+    if (existing) {
+      // Permissions added since the role was created
+      if (ALL_PERMISSIONS.some((permission) => !existing.permissions.includes(permission))) {
+        await this.prisma.accessRole.update({ where: { id: existing.id }, data: { permissions: ALL_PERMISSIONS } });
+      }
+      return;
+    }
+
+    try {
+      const migrated = await this.prisma.$transaction(async (tx) => {
+        const role = await tx.accessRole.create({
+          data: { name: SUPER_ADMIN_ROLE, description: 'Every permission', permissions: ALL_PERMISSIONS, isSystem: true },
+        });
+        const admins = await tx.user.findMany({
+          where: { role: UserRole.ADMIN, accessRoles: { none: {} } },
+          select: { id: true },
+        });
+        for (const admin of admins) {
+          await tx.user.update({ where: { id: admin.id }, data: { accessRoles: { connect: { id: role.id } } } });
+        }
+        return admins.length;
+      });
+      this.logger.log(`Created the ${SUPER_ADMIN_ROLE} role and assigned it to ${migrated} admin(s)`);
+    } catch (error: any) {
+      // Another instance created it first
+      if (error.code !== 'P2002') throw error;
+    }
+  }
+
+  listPermissions() {
+    return { permissions: ALL_PERMISSIONS };
+  }
+
+  async listRoles() {
+    const roles = await this.prisma.accessRole.findMany({
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { users: true } } },
+    });
+    return { roles };
+  }
+
+  async createRole(
+    data: { name: string; description?: string; permissions: string[] },
+    actor: AuditActor,
+    granted: Permission[],
+  ) {
+    const permissions = this.validatePermissions(data.permissions, granted);
+
+    const existing = await this.prisma.accessRole.findUnique({ where: { name: data.name } });
+    if (existing) {
+      throw new ConflictException('A role with this name already exists');
+    }
+
+    const role = await this.prisma.accessRole.create({
+      data: { name: data.name, description: data.description, permissions },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'access_role.create',
+      entityType: 'AccessRole',
+      entityId: role.id,
+      after: { name: role.name, permissions: role.permissions },
+    });
+
+    return role;
+  }
+
+  async updateRole(
+    id: string,
+    data: { name?: string; description?: string; permissions?: string[] },
+    actor: AuditActor,
+    granted: Permission[],
+  ) {
+    const role = await this.findRole(id);
+    if (role.isSystem) {
+      throw new BadRequestException('System roles cannot be edited');
+    }
+
+    const permissions = data.permissions ? this.validatePermissions(data.permissions, granted) : undefined;
+
+    if (data.name && data.name !== role.name) {
+      const existing = await this.prisma.accessRole.findUnique({ where: { name: data.name } });
+      if (existing) {
+        throw new ConflictException('A role with this name already exists');
+      }
+    }
+
+    const updated = await this.prisma.accessRole.update({
+      where: { id },
+      data: { name: data.name, description: data.description, permissions },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'access_role.update',
+      entityType: 'AccessRole',
+      entityId: id,
+      before: { name: role.name, description: role.description, permissions: role.permissions },
+      after: { name: updated.name, description: updated.description, permissions: updated.permissions },
+    });
+
+    return updated;
+  }
+
+  async deleteRole(id: string, actor: AuditActor) {
+    const role = await this.findRole(id);
+    if (role.isSystem) {
+      throw new BadRequestException('System roles cannot be deleted');
+    }
+
+    await this.prisma.accessRole.delete({ where: { id } });
+
+    await this.auditService.record(actor, {
+      action: 'access_role.delete',
+      entityType: 'AccessRole',
+      entityId: id,
+      before: { name: role.name, permissions: role.permissions },
+    });
+
+    return { message: 'Role deleted' };
+  }
+
+  async setUserRoles(userId: string, roleIds: string[], actor: AuditActor, granted: Permission[]) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { accessRoles: { select: { id: true, name: true, permissions: true } } },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.role !== UserRole.ADMIN) {
+      throw new BadRequestException('Access roles can only be assigned to admin users');
+    }
+
+    const roles = await this.prisma.accessRole.findMany({ where: { id: { in: roleIds } } });
+    if (roles.length !== new Set(roleIds).size) {
+      throw new BadRequestException('One or more roles were not found');
+    }
+
+    // No one can hand out permissions they do not hold themselves
+    for (const role of roles) {
+      this.validatePermissions(role.permissions, granted);
+    }
+    // ...or change the roles of an admin who holds more than they do
+    this.assertOutranks(user, granted);
+
+    const updated = await this.prisma.user.update({
+      where: { id: userId },
+      data: { accessRoles: { set: roles.map((role) => ({ id: role.id })) } },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        accessRoles: { select: { id: true, name: true, permissions: true } },
+      },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'user.access_roles.update',
+      entityType: 'User',
+      entityId: userId,
+      before: { accessRoles: user.accessRoles.map((role) => role.name).sort() },
+      after: { accessRoles: updated.accessRoles.map((role) => role.name).sort() },
+    });
+
+    return updated;
+  }
+
+  /** Rejects changes to an admin who holds permissions the acting admin lacks */
+  assertOutranks(target: { role: UserRole; accessRoles: { permissions: string[] }[] }, granted: Permission[]) {
+    const notHeld = resolvePermissions(target).filter((permission) => !granted.includes(permission));
+    if (notHeld.length > 0) {
+      throw new ForbiddenException(`This admin holds permissions you do not have: ${notHeld.join(', ')}`);
+    }
+  }
+
+  private async findRole(id: string) {
+    const role = await this.prisma.accessRole.findUnique({ where: { id } });
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+    return role;
+  }
+
+  private validatePermissions(permissions: string[], granted: Permission[]): Permission[] {
+    const unknown = permissions.filter((permission) => !isPermission(permission));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown permission: ${unknown.join(', ')}`);
+    }
+
+    const notHeld = permissions.filter((permission) => !granted.includes(permission as Permission));
+    if (notHeld.length > 0) {
+      throw new ForbiddenException(`You cannot grant permissions you do not have: ${notHeld.join(', ')}`);
+    }
+
+    return [...new Set(permissions)] as Permission[];
+  }
+}
@@ -1,19 +1,31 @@
 import {
   Controller,
   Get,
+  Post,
   Patch,
+  Put,
+  Delete,
   Param,
   Query,
   Body,
   UseGuards,
+  StreamableFile,
 } from '@nestjs/common';
-import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { IsArray, IsBoolean, IsEnum, IsIn, IsInt, IsObject, IsOptional, IsString, Max, MaxLength, Min, MinLength } from 'class-validator';
 import { Transform } from 'class-transformer';
-import { UserRole, UserStatus, OrderStatus, SellerType } from '@prisma/client';
+import { UserRole, UserStatus, OrderStatus, SellerType, DeletionRequestStatus, ProductStatus } from '@prisma/client';
 import { AdminService } from './admin.service';
+import { AccessRolesService } from './access-roles.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { RequireTwoFactor } from '../../common/decorators/two-factor.decorator';
+import { RequirePermissions, GrantedPermissions } from '../../common/decorators/permissions.decorator';
+import { CurrentActor, AuditActor } from '../../common/decorators/current-actor.decorator';
+import { PERMISSIONS, Permission } from '../../common/permissions/permissions';
+import { PRODUCT_SORTS, ProductSort } from '../products/product-query';
+import { IsCnpj } from '../../common/validators/tax-id.validator';
 
 // DTOs
 export class GetUsersQueryDto {
@@ -54,7 +66,7 @@ export class UpdateUserStatusDto {
 
 export class UpdateBusinessInfoDto {
   @IsOptional()
-  @IsString()
+  @IsCnpj()
   cnpj?: string;
 
   @IsOptional()
@@ -84,9 +96,81 @@ export class GetOrdersQueryDto {
   endDate?: string;
 }
 
+export class GetProductsQueryDto {
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @IsEnum(ProductStatus)
+  status?: ProductStatus;
+
+  @IsOptional()
+  @IsString()
+  sellerId?: string;
+
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  inStock?: boolean;
+
+  @IsOptional()
+  @IsIn(PRODUCT_SORTS.filter((sort) => sort !== 'relevance'))
+  sort?: Exclude<ProductSort, 'relevance'>;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  // Lists soft-deleted products instead of live ones
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  deleted?: boolean;
+}
+
 export class UpdateProductStatusDto {
-  @IsEnum(['PENDING', 'APPROVED', 'CANCELLED'])
-  status: 'PENDING' | 'APPROVED' | 'CANCELLED';
+  @IsEnum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED'])
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+  // Required when rejecting; sent to the seller
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  reason?: string;
+
+  // Pass/fail per PRODUCT_CHECKLIST item, e.g. { "images": true, "description": false }
+  @IsOptional()
+  @IsObject()
+  checklist?: Record<string, boolean>;
+}
+
+export class GetModerationQueueQueryDto {
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
 }
 
 export class UpdateOrderStatusDto {
@@ -94,54 +178,224 @@ export class UpdateOrderStatusDto {
   status: OrderStatus;
 }
 
+export class ReviewDocumentDto {
+  @IsEnum(['APPROVED', 'REJECTED'])
+  status: 'APPROVED' | 'REJECTED';
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class GetAuditLogQueryDto {
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  actorId?: string;
+
+  @IsOptional()
+  @IsString()
+  entityType?: string;
+
+  @IsOptional()
+  @IsString()
+  entityId?: string;
+
+  @IsOptional()
+  @IsString()
+  action?: string;
+
+  @IsOptional()
+  @IsString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsString()
+  endDate?: string;
+}
+
+export class GetDeletionRequestsQueryDto {
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number;
+
+  @IsOptional()
+  @IsEnum(DeletionRequestStatus)
+  status?: DeletionRequestStatus;
+}
+
+export class ReviewDeletionRequestDto {
+  @IsEnum(['APPROVE', 'REJECT'])
+  decision: 'APPROVE' | 'REJECT';
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class CreateAccessRoleDto {
+  @IsString()
+  @MinLength(2)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  permissions: string[];
+}
+
+export class UpdateAccessRoleDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  permissions?: string[];
+}
+
+export class SetUserAccessRolesDto {
+  @IsArray()
+  @IsString({ each: true })
+  roleIds: string[];
+}
+
 @Controller('admin')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
 @Roles(UserRole.ADMIN)
+@RequireTwoFactor()
 export class AdminController {
-  constructor(private adminService: AdminService) {}
+  constructor(
+    private adminService: AdminService,
+    private accessRolesService: AccessRolesService,
+  ) {}
+
+  @Get('me/permissions')
+  getMyPermissions(@GrantedPermissions() granted: Permission[]) {
+    return { permissions: granted };
+  }
 
   // ============ USER MANAGEMENT ============
 
   @Get('users')
+  @RequirePermissions(PERMISSIONS.USERS_READ)
   getUsers(@Query() query: GetUsersQueryDto) {
     return this.adminService.getAllUsers(query);
   }
 
   @Get('users/:id')
+  @RequirePermissions(PERMISSIONS.USERS_READ)
   getUserById(@Param('id') id: string) {
     return this.adminService.getUserById(id);
   }
 
+  @Post('users/:id/unlock')
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  unlockUser(@Param('id') id: string, @CurrentActor() actor: AuditActor) {
+    return this.adminService.unlockUser(id, actor);
+  }
+
   @Patch('users/:id/role')
-  updateUserRole(@Param('id') id: string, @Body() dto: UpdateUserRoleDto) {
-    return this.adminService.updateUserRole(id, dto.role);
+  @RequirePermissions(PERMISSIONS.USERS_ASSIGN_ROLES)
+  updateUserRole(
+    @Param('id') id: string,
+    @Body() dto: UpdateUserRoleDto,
+    @CurrentActor() actor: AuditActor,
+    @GrantedPermissions() granted: Permission[],
+  ) {
+    return this.adminService.updateUserRole(id, dto.role, actor, granted);
+  }
+
+  @Put('users/:id/access-roles')
+  @RequirePermissions(PERMISSIONS.USERS_ASSIGN_ROLES)
+  setUserAccessRoles(
+    @Param('id') id: string,
+    @Body() dto: SetUserAccessRolesDto,
+    @CurrentActor() actor: AuditActor,
+    @GrantedPermissions() granted: Permission[],
+  ) {
+    return this.accessRolesService.setUserRoles(id, dto.roleIds, actor, granted);
   }
 
   @Patch('users/:id/status')
-  updateUserStatus(@Param('id') id: string, @Body() dto: UpdateUserStatusDto) {
-    return this.adminService.updateUserStatus(id, dto.status);
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  updateUserStatus(@Param('id') id: string, @Body() dto: UpdateUserStatusDto, @CurrentActor() actor: AuditActor) {
+    return this.adminService.updateUserStatus(id, dto.status, actor);
   }
 
   @Patch('users/:id/business-info')
-  updateBusinessInfo(@Param('id') id: string, @Body() dto: UpdateBusinessInfoDto) {
-    return this.adminService.updateBusinessInfo(id, dto);
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  updateBusinessInfo(@Param('id') id: string, @Body() dto: UpdateBusinessInfoDto, @CurrentActor() actor: AuditActor) {
+    return this.adminService.updateBusinessInfo(id, dto, actor);
+  }
+
+  // ============ SELLER KYC ============
+
+  @Get('users/:id/documents')
+  @RequirePermissions(PERMISSIONS.SELLERS_REVIEW)
+  getUserDocuments(@Param('id') id: string) {
+    return this.adminService.getUserDocuments(id);
+  }
+
+  @Get('documents/:id/file')
+  @RequirePermissions(PERMISSIONS.SELLERS_REVIEW)
+  async getDocumentFile(@Param('id') id: string) {
+    const { document, stream } = await this.adminService.getDocumentFile(id);
+    return new StreamableFile(stream, {
+      type: document.mimeType,
+      disposition: `inline; filename="${encodeURIComponent(document.fileName)}"`,
+    });
+  }
+
+  @Patch('documents/:id')
+  @RequirePermissions(PERMISSIONS.SELLERS_REVIEW)
+  reviewDocument(@Param('id') id: string, @Body() dto: ReviewDocumentDto, @CurrentActor() actor: AuditActor) {
+    return this.adminService.reviewDocument(id, dto.status, dto.note, actor);
   }
 
   // ============ ORDER OVERSIGHT ============
 
   @Get('orders')
+  @RequirePermissions(PERMISSIONS.ORDERS_READ)
   getAllOrders(@Query() query: GetOrdersQueryDto) {
     return this.adminService.getAllOrders(query);
   }
 
   @Patch('orders/:id/status')
-  updateOrderStatus(@Param('id') id: string, @Body() dto: UpdateOrderStatusDto) {
-    return this.adminService.updateOrderStatus(id, dto.status);
+  @RequirePermissions(PERMISSIONS.ORDERS_MANAGE)
+  updateOrderStatus(
+    @Param('id') id: string,
+    @Body() dto: UpdateOrderStatusDto,
+    @CurrentActor() actor: AuditActor,
+    @GrantedPermissions() granted: Permission[],
+  ) {
+    return this.adminService.updateOrderStatus(id, dto.status, actor, granted);
   }
 
   // ============ DASHBOARD ============
 
   @Get('dashboard/stats')
+  @RequirePermissions(PERMISSIONS.DASHBOARD_READ)
   getDashboardStats() {
     return this.adminService.getDashboardStats();
   }
@@ -149,12 +403,113 @@ export class AdminController {
   // ============ PRODUCT MANAGEMENT ============
 
   @Get('products')
-  getAllProducts() {
-    return this.adminService.getAllProducts();
+  @RequirePermissions(PERMISSIONS.PRODUCTS_READ)
+  getAllProducts(@Query() query: GetProductsQueryDto) {
+    return this.adminService.getAllProducts(query);
+  }
+
+  @Get('products/moderation-queue')
+  @RequirePermissions(PERMISSIONS.PRODUCTS_MODERATE)
+  getModerationQueue(@Query() query: GetModerationQueueQueryDto) {
+    return this.adminService.getModerationQueue(query);
+  }
+
+  @Get('products/:id/moderation')
+  @RequirePermissions(PERMISSIONS.PRODUCTS_READ)
+  getProductModeration(@Param('id') id: string) {
+    return this.adminService.getProductModeration(id);
   }
 
   @Patch('products/:id/status')
-  updateProductStatus(@Param('id') id: string, @Body() dto: UpdateProductStatusDto) {
-    return this.adminService.updateProductStatus(id, dto.status);
+  @RequirePermissions(PERMISSIONS.PRODUCTS_MODERATE)
+  updateProductStatus(@Param('id') id: string, @Body() dto: UpdateProductStatusDto, @CurrentActor() actor: AuditActor) {
+    return this.adminService.updateProductStatus(id, dto, actor);
+  }
+
+  // ============ RESTORE SOFT-DELETED RECORDS ============
+
+  @Post('products/:id/restore')
+  @RequirePermissions(PERMISSIONS.PRODUCTS_MODERATE)
+  restoreProduct(@Param('id') id: string, @CurrentActor() actor: AuditActor) {
+    return this.adminService.restoreProduct(id, actor);
+  }
+
+  @Post('categories/:id/restore')
+  @RequirePermissions(PERMISSIONS.PRODUCTS_MODERATE)
+  restoreCategory(@Param('id') id: string, @CurrentActor() actor: AuditActor) {
+    return this.adminService.restoreCategory(id, actor);
+  }
+
+  @Post('addresses/:id/restore')
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  restoreAddress(@Param('id') id: string, @CurrentActor() actor: AuditActor) {
+    return this.adminService.restoreAddress(id, actor);
+  }
+
+  // ============ AUDIT LOG ============
+
+  @Get('audit-log')
+  @RequirePermissions(PERMISSIONS.AUDIT_READ)
+  getAuditLog(@Query() query: GetAuditLogQueryDto) {
+    return this.adminService.getAuditLog(query);
+  }
+
+  // ============ LGPD DELETION REQUESTS ============
+
+  @Get('deletion-requests')
+  @RequirePermissions(PERMISSIONS.PRIVACY_MANAGE)
+  getDeletionRequests(@Query() query: GetDeletionRequestsQueryDto) {
+    return this.adminService.getDeletionRequests(query);
+  }
+
+  @Patch('deletion-requests/:id')
+  @RequirePermissions(PERMISSIONS.PRIVACY_MANAGE)
+  reviewDeletionRequest(
+    @Param('id') id: string,
+    @Body() dto: ReviewDeletionRequestDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.adminService.reviewDeletionRequest(id, dto.decision, dto.note, actor);
+  }
+
+  // ============ ACCESS ROLES ============
+
+  @Get('permissions')
+  @RequirePermissions(PERMISSIONS.ROLES_MANAGE)
+  getPermissions() {
+    return this.accessRolesService.listPermissions();
+  }
+
+  @Get('roles')
+  @RequirePermissions(PERMISSIONS.ROLES_MANAGE)
+  getRoles() {
+    return this.accessRolesService.listRoles();
+  }
+
+  @Post('roles')
+  @RequirePermissions(PERMISSIONS.ROLES_MANAGE)
+  createRole(
+    @Body() dto: CreateAccessRoleDto,
+    @CurrentActor() actor: AuditActor,
+    @GrantedPermissions() granted: Permission[],
+  ) {
+    return this.accessRolesService.createRole(dto, actor, granted);
+  }
+
+  @Patch('roles/:id')
+  @RequirePermissions(PERMISSIONS.ROLES_MANAGE)
+  updateRole(
+    @Param('id') id: string,
+    @Body() dto: UpdateAccessRoleDto,
+    @CurrentActor() actor: AuditActor,
+    @GrantedPermissions() granted: Permission[],
+  ) {
+    return this.accessRolesService.updateRole(id, dto, actor, granted);
+  }
+
+  @Delete('roles/:id')
+  @RequirePermissions(PERMISSIONS.ROLES_MANAGE)
+  deleteRole(@Param('id') id: string, @CurrentActor() actor: AuditActor) {
+    return this.accessRolesService.deleteRole(id, actor);
   }
 }
@@ -3,11 +3,30 @@ import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
+import { AccessRolesService } from './access-roles.service';
 import { PrismaModule } from '../../common/prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { AuditModule } from '../audit/audit.module';
+import { PrivacyModule } from '../privacy/privacy.module';
+import { KycModule } from '../kyc/kyc.module';
+import { ProductsModule } from '../products/products.module';
+import { CategoriesModule } from '../categories/categories.module';
+import { AddressModule } from '../address/address.module';
+import { OrdersModule } from '../orders/orders.module';
+import { CheckoutPreferencesModule } from '../payment/checkout-preferences.module';
 
 @Module({
   imports: [
     PrismaModule,
+    AuthModule,
+    AuditModule,
+    PrivacyModule,
+    KycModule,
+    ProductsModule,
+    CategoriesModule,
+    AddressModule,
+    OrdersModule,
+    CheckoutPreferencesModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (config: ConfigService) => ({
@@ -18,6 +37,6 @@ import { PrismaModule } from '../../common/prisma/prisma.module';
     }),
   ],
   controllers: [AdminController],
-  providers: [AdminService],
+  providers: [AdminService, AccessRolesService],
 })
 export class AdminModule {}
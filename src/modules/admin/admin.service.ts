@@ -1,10 +1,42 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { UserRole, UserStatus, OrderStatus, SellerType } from '@prisma/client';
+import { Prisma, UserRole, UserStatus, OrderStatus, SellerType, DeletionRequestStatus, ProductStatus } from '@prisma/client';
+import { AuthService } from '../auth/auth.service';
+import { LoginProtectionService } from '../auth/login-protection.service';
+import { AuditService } from '../audit/audit.service';
+import { PrivacyService } from '../privacy/privacy.service';
+import { KycService } from '../kyc/kyc.service';
+import { ProductSort, findProductPage } from '../products/product-query';
+import { ProductModerationService, ProductChecklist } from '../products/product-moderation.service';
+import { MailerService } from '../../common/mailer/mailer.service';
+import { ProductsService } from '../products/products.service';
+import { CategoriesService } from '../categories/categories.service';
+import { AddressService } from '../address/address.service';
+import { StockReservationsService } from '../orders/stock-reservations.service';
+import { CheckoutPreferencesService } from '../payment/checkout-preferences.service';
+import { AccessRolesService } from './access-roles.service';
+import { onlyDigits } from '../../common/validators/tax-id.validator';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+import { ALL_PERMISSIONS, PERMISSIONS, Permission } from '../../common/permissions/permissions';
 
 @Injectable()
 export class AdminService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private authService: AuthService,
+    private loginProtection: LoginProtectionService,
+    private auditService: AuditService,
+    private privacyService: PrivacyService,
+    private kycService: KycService,
+    private moderationService: ProductModerationService,
+    private mailer: MailerService,
+    private productsService: ProductsService,
+    private categoriesService: CategoriesService,
+    private addressService: AddressService,
+    private stockReservations: StockReservationsService,
+    private checkoutPreferences: CheckoutPreferencesService,
+    private accessRolesService: AccessRolesService,
+  ) {}
 
   // ============ USER MANAGEMENT ============
 
@@ -46,6 +78,8 @@ export class AdminService {
           cnpj: true,
           legalCompanyName: true,
           mercadoPagoConnected: true,
+          emailVerifiedAt: true,
+          lockedUntil: true,
           createdAt: true,
           updatedAt: true,
           _count: {
@@ -81,11 +115,22 @@ export class AdminService {
         status: true,
         sellerType: true,
         cnpj: true,
+        cpf: true,
         legalCompanyName: true,
         mercadoPagoConnected: true,
         mercadoPagoAccountId: true,
+        emailVerifiedAt: true,
+        twoFactorEnabled: true,
+        failedLoginAttempts: true,
+        lockedUntil: true,
         createdAt: true,
         updatedAt: true,
+        accessRoles: { select: { id: true, name: true, permissions: true } },
+        loginAttempts: {
+          take: 20,
+          orderBy: { createdAt: 'desc' },
+          select: { id: true, outcome: true, ipAddress: true, userAgent: true, createdAt: true },
+        },
         _count: {
           select: {
             orders: true,
@@ -103,15 +148,45 @@ export class AdminService {
     return user;
   }
 
-  async updateUserRole(id: string, role: UserRole) {
-    const user = await this.prisma.user.findUnique({ where: { id } });
+  async unlockUser(id: string, actor: AuditActor) {
+    const user = await this.loginProtection.unlock(id);
+
+    await this.auditService.record(actor, {
+      action: 'user.unlock',
+      entityType: 'User',
+      entityId: id,
+    });
+
+    return user;
+  }
+
+  async updateUserRole(id: string, role: UserRole, actor: AuditActor, granted: Permission[]) {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      include: { accessRoles: { select: { permissions: true } } },
+    });
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
-    return this.prisma.user.update({
+    // The ADMIN role alone bypasses seller ownership checks, whatever access roles follow
+    if (role === UserRole.ADMIN && user.role !== UserRole.ADMIN) {
+      if (!ALL_PERMISSIONS.every((permission) => granted.includes(permission))) {
+        throw new ForbiddenException('Only admins with full access can promote users to ADMIN');
+      }
+    }
+    // Demoting strips the admin's access roles
+    if (user.role === UserRole.ADMIN && role !== UserRole.ADMIN) {
+      this.accessRolesService.assertOutranks(user, granted);
+    }
+
+    const updated = await this.prisma.user.update({
       where: { id },
-      data: { role },
+      data: {
+        role,
+        // Access roles only apply to admins
+        ...(role !== UserRole.ADMIN && { accessRoles: { set: [] } }),
+      },
       select: {
         id: true,
         email: true,
@@ -121,9 +196,24 @@ export class AdminService {
         sellerType: true,
       },
     });
+
+    // Existing tokens carry the old role claim, so force a fresh login
+    if (role !== user.role) {
+      await this.authService.revokeAllSessions(id);
+    }
+
+    await this.auditService.record(actor, {
+      action: 'user.role.update',
+      entityType: 'User',
+      entityId: id,
+      before: { role: user.role },
+      after: { role: updated.role },
+    });
+
+    return updated;
   }
 
-  async updateUserStatus(id: string, status: UserStatus) {
+  async updateUserStatus(id: string, status: UserStatus, actor: AuditActor) {
     const user = await this.prisma.user.findUnique({ where: { id } });
     if (!user) {
       throw new NotFoundException('User not found');
@@ -133,12 +223,20 @@ export class AdminService {
       throw new BadRequestException('Cannot change status of admin users');
     }
 
+    if (user.role === UserRole.SELLER && status === UserStatus.ACTIVE && !user.emailVerifiedAt) {
+      throw new BadRequestException('Seller must verify their email before approval');
+    }
+
     // Require MP connection before approving sellers
     if (user.role === UserRole.SELLER && status === UserStatus.ACTIVE && !user.mercadoPagoConnected) {
       throw new BadRequestException('Seller must connect Mercado Pago before approval');
     }
 
-    return this.prisma.user.update({
+    if (user.role === UserRole.SELLER && status === UserStatus.ACTIVE) {
+      await this.kycService.assertReadyForApproval(user);
+    }
+
+    const updated = await this.prisma.user.update({
       where: { id },
       data: { status },
       select: {
@@ -151,9 +249,23 @@ export class AdminService {
         mercadoPagoConnected: true,
       },
     });
+
+    if (status === UserStatus.SUSPENDED) {
+      await this.authService.revokeAllSessions(id);
+    }
+
+    await this.auditService.record(actor, {
+      action: 'user.status.update',
+      entityType: 'User',
+      entityId: id,
+      before: { status: user.status },
+      after: { status: updated.status },
+    });
+
+    return updated;
   }
 
-  async updateBusinessInfo(id: string, data: { cnpj?: string; legalCompanyName?: string }) {
+  async updateBusinessInfo(id: string, data: { cnpj?: string; legalCompanyName?: string }, actor: AuditActor) {
     const user = await this.prisma.user.findUnique({ where: { id } });
     if (!user) {
       throw new NotFoundException('User not found');
@@ -163,10 +275,15 @@ export class AdminService {
       throw new BadRequestException('Can only update business info for seller accounts');
     }
 
-    return this.prisma.user.update({
+    const cnpj = data.cnpj !== undefined ? onlyDigits(data.cnpj) : undefined;
+    if (cnpj && cnpj !== user.cnpj) {
+      await this.authService.assertCnpjAvailable(cnpj, id);
+    }
+
+    const updated = await this.prisma.user.update({
       where: { id },
       data: {
-        cnpj: data.cnpj,
+        cnpj,
         legalCompanyName: data.legalCompanyName,
       },
       select: {
@@ -180,7 +297,31 @@ export class AdminService {
         legalCompanyName: true,
         mercadoPagoConnected: true,
       },
+    }).catch((error) => { throw this.authService.cnpjConflict(error); });
+
+    await this.auditService.record(actor, {
+      action: 'user.business-info.update',
+      entityType: 'User',
+      entityId: id,
+      before: { cnpj: user.cnpj, legalCompanyName: user.legalCompanyName },
+      after: { cnpj: updated.cnpj, legalCompanyName: updated.legalCompanyName },
     });
+
+    return updated;
+  }
+
+  // ============ SELLER KYC ============
+
+  async getUserDocuments(userId: string) {
+    return this.kycService.listDocuments(userId);
+  }
+
+  async getDocumentFile(documentId: string) {
+    return this.kycService.getDocumentFile(documentId);
+  }
+
+  async reviewDocument(documentId: string, status: 'APPROVED' | 'REJECTED', note: string | undefined, actor: AuditActor) {
+    return this.kycService.reviewDocument(documentId, status, note, actor);
   }
 
   // ============ ORDER OVERSIGHT ============
@@ -246,13 +387,28 @@ export class AdminService {
     };
   }
 
-  async updateOrderStatus(orderId: string, status: OrderStatus) {
+  async updateOrderStatus(orderId: string, status: OrderStatus, actor: AuditActor, granted: Permission[]) {
     const order = await this.prisma.order.findUnique({ where: { id: orderId } });
     if (!order) {
       throw new NotFoundException('Order not found');
     }
 
-    return this.prisma.order.update({
+    // Cancelling an order that was already paid means refunding the customer
+    if (
+      status === OrderStatus.CANCELLED &&
+      order.status !== OrderStatus.PENDING &&
+      order.status !== OrderStatus.CANCELLED &&
+      !granted.includes(PERMISSIONS.ORDERS_REFUND)
+    ) {
+      throw new ForbiddenException(`Missing permission: ${PERMISSIONS.ORDERS_REFUND}`);
+    }
+
+    // Close the checkout first so a late payment cannot bring the order back
+    if (status === OrderStatus.CANCELLED && order.status === OrderStatus.PENDING && order.preferenceId) {
+      await this.checkoutPreferences.expire(order.sellerId, order.preferenceId);
+    }
+
+    const updated = await this.prisma.order.update({
       where: { id: orderId },
       data: { status },
       include: {
@@ -265,6 +421,20 @@ export class AdminService {
         address: true,
       },
     });
+
+    if (status === OrderStatus.CANCELLED) {
+      await this.stockReservations.release(orderId);
+    }
+
+    await this.auditService.record(actor, {
+      action: 'order.status.update',
+      entityType: 'Order',
+      entityId: orderId,
+      before: { status: order.status },
+      after: { status: updated.status },
+    });
+
+    return updated;
   }
 
   // ============ DASHBOARD STATS ============
@@ -280,7 +450,7 @@ export class AdminService {
       recentOrders,
     ] = await Promise.all([
       this.prisma.user.count(),
-      this.prisma.product.count(),
+      this.prisma.product.count({ where: { deletedAt: null } }),
       this.prisma.order.count(),
       this.prisma.order.aggregate({
         where: {
@@ -328,34 +498,212 @@ export class AdminService {
 
   // ============ PRODUCT MANAGEMENT ============
 
-  async getAllProducts() {
+  async getAllProducts(params: {
+    page?: number;
+    limit?: number;
+    status?: ProductStatus;
+    sellerId?: string;
+    categoryId?: string;
+    inStock?: boolean;
+    sort?: Exclude<ProductSort, 'relevance'>;
+    cursor?: string;
+    deleted?: boolean;
+  }) {
+    const { page = 1, limit = 20, status, sellerId, categoryId, inStock, sort = 'newest', cursor, deleted } = params;
+
     // Only show products that have been submitted for approval
     // This excludes drafts from PENDING sellers
-    return this.prisma.product.findMany({
-      where: {
-        isSubmittedForApproval: true,
-      },
-      include: {
-        category: true,
-        seller: { select: { id: true, name: true, email: true, status: true, sellerType: true } },
+    // Deleted products are listed on their own, for restoring
+    const where: Prisma.ProductWhereInput = { isSubmittedForApproval: true, deletedAt: deleted ? { not: null } : null };
+    if (status) where.status = status;
+    if (sellerId) where.sellerId = sellerId;
+    if (categoryId) where.categoryId = categoryId;
+    if (inStock) where.stock = { gt: 0 };
+
+    const [{ items: products, nextCursor }, total] = await Promise.all([
+      findProductPage(
+        (args) =>
+          this.prisma.product.findMany({
+            where,
+            include: {
+              category: true,
+              seller: { select: { id: true, name: true, email: true, status: true, sellerType: true } },
+            },
+            ...args,
+          }),
+        { sort, limit, page, cursor },
+      ),
+      this.prisma.product.count({ where }),
+    ]);
+
+    return {
+      products,
+      pagination: {
+        limit,
+        total,
+        nextCursor,
+        ...(!cursor && { page, totalPages: Math.ceil(total / limit) }),
       },
-      orderBy: { createdAt: 'desc' },
-    });
+    };
+  }
+
+  // Submitted products awaiting review, longest-waiting first
+  async getModerationQueue(params: { page?: number; limit?: number }) {
+    const { page = 1, limit = 20 } = params;
+    const where: Prisma.ProductWhereInput = { status: ProductStatus.PENDING, isSubmittedForApproval: true, archivedAt: null, deletedAt: null };
+
+    const [products, total] = await Promise.all([
+      this.prisma.product.findMany({
+        where,
+        include: {
+          category: true,
+          seller: { select: { id: true, name: true, email: true, status: true, sellerType: true } },
+          // Shows whether this is a resubmission or a product edited after approval
+          moderations: { orderBy: { createdAt: 'desc' }, take: 1 },
+        },
+        orderBy: [{ submittedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.product.count({ where }),
+    ]);
+
+    return {
+      products,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async getProductModeration(productId: string) {
+    return this.moderationService.history(productId);
   }
 
-  async updateProductStatus(productId: string, status: 'PENDING' | 'APPROVED' | 'CANCELLED') {
-    const product = await this.prisma.product.findUnique({ where: { id: productId } });
+  async updateProductStatus(
+    productId: string,
+    decision: { status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED'; reason?: string; checklist?: Record<string, unknown> },
+    actor: AuditActor,
+  ) {
+    // Deleted products have to be restored before they can be reviewed
+    const product = await this.prisma.product.findFirst({
+      where: { id: productId, deletedAt: null },
+      include: { seller: { select: { name: true, email: true } } },
+    });
     if (!product) {
       throw new NotFoundException('Product not found');
     }
 
-    return this.prisma.product.update({
-      where: { id: productId },
-      data: { status },
-      include: {
-        category: true,
-        seller: { select: { id: true, name: true, email: true } },
-      },
+    const reason = decision.reason?.trim() || null;
+    if (decision.status === ProductStatus.REJECTED && !reason) {
+      throw new BadRequestException('A reason is required to reject a product');
+    }
+    const failed = decision.checklist ? this.moderationService.validateChecklist(decision.checklist) : [];
+    if (decision.status === ProductStatus.APPROVED && failed.length > 0) {
+      throw new BadRequestException(`Cannot approve with failed checklist item(s): ${failed.join(', ')}`);
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const result = await tx.product.update({
+        where: { id: productId },
+        data: { status: decision.status },
+        include: {
+          category: true,
+          seller: { select: { id: true, name: true, email: true } },
+        },
+      });
+      await this.moderationService.record(productId, {
+        fromStatus: product.status,
+        status: decision.status,
+        reviewerId: actor.id,
+        reason,
+        checklist: decision.checklist as ProductChecklist | undefined,
+      }, tx);
+      return result;
+    });
+
+    await this.auditService.record(actor, {
+      action: 'product.status.update',
+      entityType: 'Product',
+      entityId: productId,
+      before: { status: product.status },
+      after: { status: updated.status, reason },
+    });
+
+    if (product.seller && decision.status !== product.status) {
+      await this.notifyModeration(product.seller, product.name, decision.status, reason);
+    }
+
+    return updated;
+  }
+
+  private async notifyModeration(seller: { name: string; email: string }, productName: string, status: ProductStatus, reason: string | null) {
+    const outcome: Partial<Record<ProductStatus, string>> = {
+      APPROVED: 'was approved and is now visible in the catalogue',
+      REJECTED: 'was rejected. Edit it and submit it again once the points below are addressed',
+      CANCELLED: 'was removed from the catalogue',
+    };
+    if (!outcome[status]) return;
+
+    try {
+      await this.mailer.send({
+        to: seller.email,
+        subject: `Product review: ${productName}`,
+        text: `Hi ${seller.name},\n\nYour product "${productName}" ${outcome[status]}.${reason ? `\n\nReviewer notes: ${reason}` : ''}`,
+      });
+    } catch (error) {
+      // The decision and reason remain visible in the seller's moderation history
+      console.error('Failed to send product moderation email:', error.message);
+    }
+  }
+
+  // ============ RESTORE SOFT-DELETED RECORDS ============
+
+  async restoreProduct(productId: string, actor: AuditActor) {
+    return this.productsService.restore(productId, actor);
+  }
+
+  async restoreCategory(categoryId: string, actor: AuditActor) {
+    const category = await this.categoriesService.restore(categoryId);
+    await this.auditService.record(actor, {
+      action: 'category.restore',
+      entityType: 'Category',
+      entityId: categoryId,
+      after: { name: category.name, slug: category.slug },
+    });
+    return category;
+  }
+
+  async restoreAddress(addressId: string, actor: AuditActor) {
+    const address = await this.addressService.restore(addressId);
+    await this.auditService.record(actor, {
+      action: 'address.restore',
+      entityType: 'Address',
+      entityId: addressId,
     });
+    return address;
+  }
+
+  // ============ AUDIT LOG ============
+
+  async getAuditLog(params: {
+    page?: number;
+    limit?: number;
+    actorId?: string;
+    entityType?: string;
+    entityId?: string;
+    action?: string;
+    startDate?: string;
+    endDate?: string;
+  }) {
+    return this.auditService.find(params);
+  }
+
+  // ============ LGPD DELETION REQUESTS ============
+
+  async getDeletionRequests(params: { page?: number; limit?: number; status?: DeletionRequestStatus }) {
+    return this.privacyService.listDeletionRequests(params);
+  }
+
+  async reviewDeletionRequest(id: string, decision: 'APPROVE' | 'REJECT', note: string | undefined, actor: AuditActor) {
+    return this.privacyService.reviewDeletionRequest(id, decision, note, actor);
   }
 }
@@ -0,0 +1,58 @@
+import { AttributeType } from '@prisma/client';
+
+export interface AttributePreset {
+  key: string;
+  label: string;
+  type: AttributeType;
+  options?: string[];
+  unit?: string;
+  min?: number;
+  max?: number;
+}
+
+// Starting points for optical categories; sellers can edit them once applied
+export const ATTRIBUTE_PRESETS: Record<'FRAMES' | 'LENSES', AttributePreset[]> = {
+  FRAMES: [
+    { key: 'lens_width', label: 'Largura da lente', type: AttributeType.NUMBER, unit: 'mm', min: 30, max: 80 },
+    { key: 'bridge', label: 'Ponte', type: AttributeType.NUMBER, unit: 'mm', min: 10, max: 30 },
+    { key: 'temple_length', label: 'Haste', type: AttributeType.NUMBER, unit: 'mm', min: 100, max: 160 },
+    {
+      key: 'frame_shape',
+      label: 'Formato',
+      type: AttributeType.ENUM,
+      options: ['Redondo', 'Quadrado', 'Retangular', 'Aviador', 'Gatinho', 'Oval', 'Hexagonal'],
+    },
+    {
+      key: 'material',
+      label: 'Material',
+      type: AttributeType.ENUM,
+      options: ['Acetato', 'Metal', 'Titânio', 'TR90', 'Misto'],
+    },
+    {
+      key: 'gender',
+      label: 'Gênero',
+      type: AttributeType.ENUM,
+      options: ['Masculino', 'Feminino', 'Unissex', 'Infantil'],
+    },
+  ],
+  LENSES: [
+    {
+      key: 'lens_index',
+      label: 'Índice de refração',
+      type: AttributeType.ENUM,
+      options: ['1.50', '1.56', '1.59', '1.61', '1.67', '1.74'],
+    },
+    {
+      key: 'treatment',
+      label: 'Tratamento',
+      type: AttributeType.ENUM,
+      options: ['Antirreflexo', 'Filtro de luz azul', 'Fotossensível', 'Polarizado', 'Nenhum'],
+    },
+    {
+      key: 'uv_protection',
+      label: 'Proteção UV',
+      type: AttributeType.ENUM,
+      options: ['UV400', 'UV380', 'Nenhuma'],
+    },
+  ],
+};
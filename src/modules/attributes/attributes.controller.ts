@@ -0,0 +1,165 @@
+import { Controller, Get, Post, Patch, Delete, Body, Param, UseGuards } from '@nestjs/common';
+import { IsArray, IsBoolean, IsEnum, IsIn, IsInt, IsNumber, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { AttributeType } from '@prisma/client';
+import { AttributesService } from './attributes.service';
+import { ATTRIBUTE_PRESETS } from './attribute-presets';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { SellerContextGuard } from '../../common/guards/seller-context.guard';
+import { Roles, UserRole } from '../../common/decorators/roles.decorator';
+import { SellerScope, SellerPermission, CurrentSeller, SellerContext } from '../../common/decorators/seller-scope.decorator';
+import { CurrentActor, AuditActor } from '../../common/decorators/current-actor.decorator';
+
+export class CreateAttributeDto {
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'key must be snake_case' })
+  @MaxLength(40)
+  key: string;
+
+  @IsString()
+  @MaxLength(80)
+  label: string;
+
+  @IsEnum(AttributeType)
+  type: AttributeType;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  options?: string[];
+
+  @IsOptional()
+  @IsString()
+  unit?: string;
+
+  @IsOptional()
+  @IsNumber()
+  min?: number;
+
+  @IsOptional()
+  @IsNumber()
+  max?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  filterable?: boolean;
+
+  @IsOptional()
+  @IsString()
+  blingFieldId?: string;
+
+  @IsOptional()
+  @IsInt()
+  position?: number;
+}
+
+export class UpdateAttributeDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  label?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  options?: string[];
+
+  @IsOptional()
+  @IsString()
+  unit?: string;
+
+  @IsOptional()
+  @IsNumber()
+  min?: number;
+
+  @IsOptional()
+  @IsNumber()
+  max?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  filterable?: boolean;
+
+  @IsOptional()
+  @IsString()
+  blingFieldId?: string;
+
+  @IsOptional()
+  @IsInt()
+  position?: number;
+}
+
+export class ApplyPresetDto {
+  @IsIn(Object.keys(ATTRIBUTE_PRESETS))
+  preset: keyof typeof ATTRIBUTE_PRESETS;
+}
+
+@Controller('categories/:categoryId/attributes')
+export class AttributesController {
+  constructor(private attributesService: AttributesService) {}
+
+  @Get()
+  list(@Param('categoryId') categoryId: string) {
+    return this.attributesService.listDefinitions(categoryId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @SellerScope(SellerPermission.CATALOG)
+  create(
+    @Param('categoryId') categoryId: string,
+    @Body() dto: CreateAttributeDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.attributesService.createDefinition(categoryId, seller.sellerId, dto, actor);
+  }
+
+  @Post('presets')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @SellerScope(SellerPermission.CATALOG)
+  applyPreset(
+    @Param('categoryId') categoryId: string,
+    @Body() dto: ApplyPresetDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.attributesService.applyPreset(categoryId, seller.sellerId, dto.preset, actor);
+  }
+
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @SellerScope(SellerPermission.CATALOG)
+  update(
+    @Param('categoryId') categoryId: string,
+    @Param('id') id: string,
+    @Body() dto: UpdateAttributeDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.attributesService.updateDefinition(categoryId, id, seller.sellerId, dto, actor);
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @SellerScope(SellerPermission.CATALOG)
+  delete(
+    @Param('categoryId') categoryId: string,
+    @Param('id') id: string,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.attributesService.deleteDefinition(categoryId, id, seller.sellerId, actor);
+  }
+}
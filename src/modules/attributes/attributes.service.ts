@@ -0,0 +1,418 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { AttributeDefinition, AttributeType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+import { ATTRIBUTE_PRESETS } from './attribute-presets';
+
+export type AttributeInput = Record<string, string | number | null | undefined>;
+
+export interface ResolvedAttribute {
+  definition: AttributeDefinition;
+  textValue: string | null;
+  numberValue: number | null;
+}
+
+// A parsed `attr[key]` filter: a number range or text alternatives
+type AttributeFilterValue = { gte?: number; lte?: number } | { values: string[] };
+
+export interface AttributeDefinitionData {
+  key: string;
+  label: string;
+  type: AttributeType;
+  options?: string[];
+  unit?: string | null;
+  min?: number | null;
+  max?: number | null;
+  required?: boolean;
+  filterable?: boolean;
+  blingFieldId?: string | null;
+  position?: number;
+}
+
+@Injectable()
+export class AttributesService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  // ============ DEFINITIONS ============
+
+  async listDefinitions(categoryId: string) {
+    return this.prisma.attributeDefinition.findMany({
+      where: { categoryId },
+      orderBy: [{ position: 'asc' }, { label: 'asc' }],
+    });
+  }
+
+  async createDefinition(categoryId: string, ownerId: string, data: AttributeDefinitionData, actor: AuditActor) {
+    await this.findOwnedCategory(categoryId, ownerId);
+    this.assertDefinitionShape(data);
+
+    const existing = await this.prisma.attributeDefinition.findUnique({
+      where: { categoryId_key: { categoryId, key: data.key } },
+    });
+    if (existing) {
+      throw new ConflictException(`Attribute ${data.key} already exists in this category`);
+    }
+
+    const definition = await this.prisma.attributeDefinition.create({
+      data: { ...data, categoryId },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'attribute.create',
+      entityType: 'AttributeDefinition',
+      entityId: definition.id,
+      after: { ...data },
+    });
+
+    return definition;
+  }
+
+  async applyPreset(categoryId: string, ownerId: string, preset: keyof typeof ATTRIBUTE_PRESETS, actor: AuditActor) {
+    await this.findOwnedCategory(categoryId, ownerId);
+
+    const existing = await this.listDefinitions(categoryId);
+    const missing = ATTRIBUTE_PRESETS[preset].filter(
+      (attribute) => !existing.some((definition) => definition.key === attribute.key),
+    );
+
+    await this.prisma.attributeDefinition.createMany({
+      data: missing.map((attribute, index) => ({
+        ...attribute,
+        categoryId,
+        position: existing.length + index,
+      })),
+    });
+
+    await this.auditService.record(actor, {
+      action: 'attribute.preset.apply',
+      entityType: 'Category',
+      entityId: categoryId,
+      after: { preset, added: missing.map((attribute) => attribute.key) },
+    });
+
+    return this.listDefinitions(categoryId);
+  }
+
+  async updateDefinition(
+    categoryId: string,
+    definitionId: string,
+    ownerId: string,
+    data: Partial<Omit<AttributeDefinitionData, 'key' | 'type'>>,
+    actor: AuditActor,
+  ) {
+    await this.findOwnedCategory(categoryId, ownerId);
+    const definition = await this.findDefinition(categoryId, definitionId);
+    this.assertDefinitionShape({ ...definition, ...data });
+
+    // Dropping an option would leave products with a value that no longer validates
+    if (data.options && definition.type === AttributeType.ENUM) {
+      const removed = definition.options.filter((option) => !data.options!.includes(option));
+      if (removed.length > 0) {
+        const inUse = await this.prisma.productAttributeValue.count({
+          where: { definitionId, textValue: { in: removed } },
+        });
+        if (inUse > 0) {
+          throw new BadRequestException(`Options still used by products: ${removed.join(', ')}`);
+        }
+      }
+    }
+
+    const updated = await this.prisma.attributeDefinition.update({
+      where: { id: definitionId },
+      data,
+    });
+
+    await this.auditService.record(actor, {
+      action: 'attribute.update',
+      entityType: 'AttributeDefinition',
+      entityId: definitionId,
+      before: this.auditFields(definition),
+      after: this.auditFields(updated),
+    });
+
+    return updated;
+  }
+
+  async deleteDefinition(categoryId: string, definitionId: string, ownerId: string, actor: AuditActor) {
+    await this.findOwnedCategory(categoryId, ownerId);
+    const definition = await this.findDefinition(categoryId, definitionId);
+
+    // Product values are removed with the definition (cascade)
+    await this.prisma.attributeDefinition.delete({ where: { id: definitionId } });
+
+    await this.auditService.record(actor, {
+      action: 'attribute.delete',
+      entityType: 'AttributeDefinition',
+      entityId: definitionId,
+      before: this.auditFields(definition),
+    });
+
+    return { message: 'Attribute deleted' };
+  }
+
+  // ============ PRODUCT VALUES ============
+
+  /**
+   * Validates attribute input against the category's definitions. `current`
+   * holds the product's stored values, so partial updates still satisfy
+   * required attributes. Throws a 400 listing every invalid attribute.
+   */
+  async resolveValues(categoryId: string, input: AttributeInput, current: AttributeInput = {}): Promise<ResolvedAttribute[]> {
+    const definitions = await this.listDefinitions(categoryId);
+    const merged = { ...current, ...input };
+    const errors: string[] = [];
+    const resolved: ResolvedAttribute[] = [];
+
+    for (const key of Object.keys(input)) {
+      if (!definitions.some((definition) => definition.key === key)) {
+        errors.push(`${key}: unknown attribute for this category`);
+      }
+    }
+
+    for (const definition of definitions) {
+      const raw = merged[definition.key];
+      if (raw === undefined || raw === null || raw === '') {
+        if (definition.required) errors.push(`${definition.key}: is required`);
+        continue;
+      }
+
+      const result = this.normalize(definition, raw);
+      if ('error' in result) {
+        errors.push(`${definition.key}: ${result.error}`);
+      } else {
+        resolved.push({ definition, ...result });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+    return resolved;
+  }
+
+  async getValues(productId: string): Promise<AttributeInput> {
+    const values = await this.prisma.productAttributeValue.findMany({
+      where: { productId },
+      include: { definition: true },
+    });
+    return Object.fromEntries(
+      values.map((value) => [value.definition.key, value.numberValue ?? value.textValue]),
+    );
+  }
+
+  async replaceValues(productId: string, resolved: ResolvedAttribute[]) {
+    await this.prisma.$transaction([
+      this.prisma.productAttributeValue.deleteMany({ where: { productId } }),
+      this.prisma.productAttributeValue.createMany({
+        data: resolved.map((attribute) => ({
+          productId,
+          definitionId: attribute.definition.id,
+          textValue: attribute.textValue,
+          numberValue: attribute.numberValue,
+        })),
+      }),
+    ]);
+  }
+
+  /**
+   * Catalogue filters from `attr[key]=value` query parameters. Numbers accept
+   * `52`, `50..54`, `50..` or `..54`; ENUM and TEXT accept comma-separated
+   * alternatives. The same key may exist in several categories.
+   */
+  async buildFilters(attr: Record<string, string | string[]>): Promise<Prisma.ProductWhereInput[]> {
+    const filters = await this.parseFilters(attr);
+    return filters.map((matching) => ({
+      OR: matching.map(({ definition, value }) => ({
+        attributes: {
+          some: {
+            definitionId: definition.id,
+            ...('values' in value
+              ? { OR: value.values.map((text) => ({ textValue: { equals: text, mode: 'insensitive' as const } })) }
+              : { numberValue: value }),
+          },
+        },
+      })),
+    }));
+  }
+
+  // The same filters as SQL conditions on a product aliased `p`, for raw search queries
+  async buildSqlFilters(attr: Record<string, string | string[]>): Promise<Prisma.Sql[]> {
+    const filters = await this.parseFilters(attr);
+    return filters.map((matching) => {
+      const alternatives = matching.map(({ definition, value }) => {
+        const conditions = [Prisma.sql`v."definitionId" = ${definition.id}`];
+        if ('values' in value) {
+          // No alternatives matches nothing, as an empty OR does in Prisma
+          conditions.push(value.values.length > 0
+            ? Prisma.sql`lower(v."textValue") IN (${Prisma.join(value.values.map((text) => text.toLowerCase()))})`
+            : Prisma.sql`FALSE`);
+        } else {
+          if (value.gte !== undefined) conditions.push(Prisma.sql`v."numberValue" >= ${value.gte}`);
+          if (value.lte !== undefined) conditions.push(Prisma.sql`v."numberValue" <= ${value.lte}`);
+        }
+        return Prisma.sql`(${Prisma.join(conditions, ' AND ')})`;
+      });
+      return Prisma.sql`EXISTS (
+        SELECT 1 FROM "ProductAttributeValue" v
+        WHERE v."productId" = p.id AND (${Prisma.join(alternatives, ' OR ')})
+      )`;
+    });
+  }
+
+  // One entry per key, listing the definitions it matches with the parsed value
+  private async parseFilters(attr: Record<string, string | string[]>) {
+    const keys = Object.keys(attr);
+    if (keys.length === 0) return [];
+
+    const definitions = await this.prisma.attributeDefinition.findMany({
+      where: { key: { in: keys }, filterable: true },
+    });
+
+    return keys.map((key) => {
+      const matching = definitions.filter((definition) => definition.key === key);
+      if (matching.length === 0) {
+        throw new BadRequestException(`Unknown attribute filter: ${key}`);
+      }
+
+      const raw = ([] as string[]).concat(attr[key]).join(',');
+      return matching.map((definition) => ({ definition, value: this.parseFilterValue(definition, raw) }));
+    });
+  }
+
+  // ============ BLING ============
+
+  // Values of attributes linked to a Bling custom field, in Bling's format
+  toBlingFields(resolved: ResolvedAttribute[]): { id: string; value: string }[] {
+    return resolved
+      .filter((attribute) => attribute.definition.blingFieldId)
+      .map((attribute) => ({
+        id: attribute.definition.blingFieldId!,
+        value: String(attribute.numberValue ?? attribute.textValue),
+      }));
+  }
+
+  async blingFieldsForProduct(productId: string) {
+    const values = await this.prisma.productAttributeValue.findMany({
+      where: { productId, definition: { blingFieldId: { not: null } } },
+      include: { definition: true },
+    });
+    return this.toBlingFields(values);
+  }
+
+  /**
+   * Stores the values of Bling custom fields that map to an attribute of the
+   * product's category. Invalid values are skipped rather than failing the sync.
+   */
+  async importBlingFields(productId: string, categoryId: string, fields: { idCampoCustomizado?: number | string; valor?: string }[]) {
+    const definitions = await this.prisma.attributeDefinition.findMany({
+      where: { categoryId, blingFieldId: { not: null } },
+    });
+
+    const resolved: ResolvedAttribute[] = [];
+    for (const field of fields || []) {
+      const definition = definitions.find((d) => d.blingFieldId === String(field.idCampoCustomizado));
+      if (!definition || field.valor === undefined || field.valor === null || field.valor === '') continue;
+
+      const result = this.normalize(definition, field.valor);
+      if ('error' in result) {
+        console.warn(`Skipping Bling field ${definition.key} on product ${productId}: ${result.error}`);
+        continue;
+      }
+      resolved.push({ definition, ...result });
+    }
+
+    if (resolved.length > 0) {
+      await this.replaceValues(productId, resolved);
+    }
+  }
+
+  // ============ HELPERS ============
+
+  private normalize(
+    definition: AttributeDefinition,
+    raw: string | number,
+  ): { textValue: string | null; numberValue: number | null } | { error: string } {
+    switch (definition.type) {
+      case AttributeType.NUMBER: {
+        const value = typeof raw === 'number' ? raw : parseFloat(String(raw).replace(',', '.'));
+        if (!Number.isFinite(value)) return { error: 'must be a number' };
+        if (definition.min !== null && value < definition.min) return { error: `must be at least ${definition.min}` };
+        if (definition.max !== null && value > definition.max) return { error: `must be at most ${definition.max}` };
+        return { textValue: null, numberValue: value };
+      }
+      case AttributeType.ENUM: {
+        const option = definition.options.find(
+          (candidate) => candidate.toLowerCase() === String(raw).trim().toLowerCase(),
+        );
+        if (!option) return { error: `must be one of ${definition.options.join(', ')}` };
+        return { textValue: option, numberValue: null };
+      }
+      default: {
+        const value = String(raw).trim();
+        if (value.length > 255) return { error: 'must be at most 255 characters' };
+        return { textValue: value, numberValue: null };
+      }
+    }
+  }
+
+  private parseFilterValue(definition: AttributeDefinition, raw: string): AttributeFilterValue {
+    if (definition.type === AttributeType.NUMBER) {
+      const [from, to] = raw.includes('..') ? raw.split('..') : [raw, raw];
+      const gte = from ? parseFloat(from) : undefined;
+      const lte = to ? parseFloat(to) : undefined;
+      if ((gte !== undefined && !Number.isFinite(gte)) || (lte !== undefined && !Number.isFinite(lte))) {
+        throw new BadRequestException(`Invalid range for attribute filter: ${definition.key}`);
+      }
+      return { gte, lte };
+    }
+
+    return { values: raw.split(',').map((value) => value.trim()).filter(Boolean) };
+  }
+
+  private assertDefinitionShape(data: { type: AttributeType; options?: string[]; min?: number | null; max?: number | null }) {
+    if (data.type === AttributeType.ENUM && !data.options?.length) {
+      throw new BadRequestException('ENUM attributes need at least one option');
+    }
+    if (data.min != null && data.max != null && data.min > data.max) {
+      throw new BadRequestException('min cannot be greater than max');
+    }
+  }
+
+  private async findOwnedCategory(categoryId: string, ownerId: string) {
+    const category = await this.prisma.category.findFirst({ where: { id: categoryId, deletedAt: null } });
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+    if (category.userId !== ownerId) {
+      throw new ForbiddenException('You can only manage attributes of your own categories');
+    }
+    return category;
+  }
+
+  private async findDefinition(categoryId: string, definitionId: string) {
+    const definition = await this.prisma.attributeDefinition.findFirst({
+      where: { id: definitionId, categoryId },
+    });
+    if (!definition) {
+      throw new NotFoundException('Attribute not found');
+    }
+    return definition;
+  }
+
+  private auditFields(definition: AttributeDefinition) {
+    return {
+      label: definition.label,
+      options: definition.options,
+      unit: definition.unit,
+      min: definition.min,
+      max: definition.max,
+      required: definition.required,
+      filterable: definition.filterable,
+      blingFieldId: definition.blingFieldId,
+    };
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { PrismaModule } from '../../common/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,179 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+
+// Never copy credentials into the audit trail
+const SENSITIVE_FIELD = /password|token|secret|recoverycodes/i;
+// Tax IDs are stored masked; the trail only needs to show that they changed
+const TAX_ID_FIELD = /^(cpf|cnpj)$/i;
+// Scrubbed from a user's entries when their account is anonymised
+const PERSONAL_FIELDS = ['name', 'email', 'legalCompanyName', 'cpf', 'cnpj'];
+const REMOVED = '[removed]';
+
+interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+@Injectable()
+export class AuditService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Stores only the fields that changed between before and after. Failures are
+   * logged rather than thrown so an audit outage never undoes a committed change.
+   */
+  async record(actor: AuditActor, entry: AuditEntry) {
+    const { before, after } = this.diff(this.snapshot(entry.before), this.snapshot(entry.after));
+
+    // Updates that did not change anything are not worth a row
+    if (entry.before && entry.after && !before && !after) return;
+
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          actorId: actor.id || null,
+          actorRole: actor.role || null,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          before: this.maskTaxIds(before) ?? Prisma.JsonNull,
+          after: this.maskTaxIds(after) ?? Prisma.JsonNull,
+          ipAddress: actor.ipAddress || null,
+          requestId: actor.requestId || null,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to write audit log:', entry.action, entry.entityId, error.message);
+    }
+  }
+
+  async find(params: {
+    page?: number;
+    limit?: number;
+    actorId?: string;
+    entityType?: string;
+    entityId?: string;
+    action?: string;
+    startDate?: string;
+    endDate?: string;
+  }) {
+    const { page = 1, limit = 20, actorId, entityType, entityId, action, startDate, endDate } = params;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+    if (actorId) where.actorId = actorId;
+    if (entityType) where.entityType = entityType;
+    if (entityId) where.entityId = entityId;
+    if (action) where.action = action;
+    if (startDate || endDate) {
+      where.createdAt = {};
+      if (startDate) where.createdAt.gte = new Date(startDate);
+      if (endDate) where.createdAt.lte = new Date(endDate);
+    }
+
+    const [logs, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          actor: { select: { id: true, name: true, email: true } },
+        },
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Part of account anonymisation: the trail is append-only for everything
+   * else, but personal values recorded about the user must not outlive them.
+   */
+  async redactUser(userId: string) {
+    const logs = await this.prisma.auditLog.findMany({
+      where: { entityType: 'User', entityId: userId },
+      select: { id: true, before: true, after: true },
+    });
+
+    for (const log of logs) {
+      const before = this.redact(log.before);
+      const after = this.redact(log.after);
+      if (!before && !after) continue;
+
+      await this.prisma.auditLog.update({
+        where: { id: log.id },
+        data: {
+          ...(before && { before }),
+          ...(after && { after }),
+        },
+      });
+    }
+  }
+
+  // The payload without personal values, or null when it had none
+  private redact(payload: Prisma.JsonValue): Prisma.InputJsonObject | null {
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+
+    const fields = PERSONAL_FIELDS.filter((field) => field in payload && payload[field] !== REMOVED);
+    if (fields.length === 0) return null;
+
+    return { ...payload, ...Object.fromEntries(fields.map((field) => [field, REMOVED])) } as Prisma.InputJsonObject;
+  }
+
+  // Applied after diffing so a changed tax ID still shows up as a change
+  private maskTaxIds(value: Record<string, any> | null) {
+    if (!value) return null;
+    const masked = { ...value };
+    for (const key of Object.keys(masked)) {
+      if (TAX_ID_FIELD.test(key) && typeof masked[key] === 'string') {
+        masked[key] = masked[key].replace(/\d(?=\d{2})/g, '*');
+      }
+    }
+    return masked;
+  }
+
+  // Round-trip through JSON so Decimal and Date values compare and store as plain values
+  private snapshot(value?: Record<string, any> | null): Record<string, any> | null {
+    if (!value) return null;
+    const plain = JSON.parse(JSON.stringify(value));
+    for (const key of Object.keys(plain)) {
+      if (SENSITIVE_FIELD.test(key)) delete plain[key];
+    }
+    return plain;
+  }
+
+  private diff(before: Record<string, any> | null, after: Record<string, any> | null) {
+    if (!before || !after) return { before, after };
+
+    const changedBefore: Record<string, any> = {};
+    const changedAfter: Record<string, any> = {};
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (!(key in after)) continue;
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changedBefore[key] = before[key] ?? null;
+        changedAfter[key] = after[key];
+      }
+    }
+
+    const hasChanges = Object.keys(changedAfter).length > 0;
+    return {
+      before: hasChanges ? changedBefore : null,
+      after: hasChanges ? changedAfter : null,
+    };
+  }
+}
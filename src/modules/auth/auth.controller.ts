@@ -1,6 +1,11 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Get, Post, Patch, Body, Query, UseGuards, Request } from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
 import { IsEmail, IsString, MinLength, IsEnum, IsOptional } from 'class-validator';
-import { AuthService } from './auth.service';
+import { AuthService, SessionMeta } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentActor, AuditActor } from '../../common/decorators/current-actor.decorator';
+import { IsCnpj, IsCpf } from '../../common/validators/tax-id.validator';
 
 export class RegisterDto {
   @IsEmail()
@@ -22,13 +27,17 @@ export class RegisterDto {
   @IsOptional()
   sellerType?: string; // Only required if role is SELLER
 
-  @IsString()
+  @IsCnpj()
   @IsOptional()
   cnpj?: string; // Brazilian company tax ID (for sellers)
 
   @IsString()
   @IsOptional()
   legalCompanyName?: string; // Legal company name (for sellers)
+
+  @IsCpf()
+  @IsOptional()
+  cpf?: string; // Brazilian individual tax ID (for customers, used on NF-e)
 }
 
 export class LoginDto {
@@ -39,17 +48,185 @@ export class LoginDto {
   password: string;
 }
 
+export class RefreshTokenDto {
+  @IsString()
+  refreshToken: string;
+}
+
+export class UpdateProfileDto {
+  @IsString()
+  @MinLength(2)
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  legalCompanyName?: string;
+
+  @IsCnpj()
+  @IsOptional()
+  cnpj?: string; // Only editable while a seller account is PENDING
+
+  @IsCpf()
+  @IsOptional()
+  cpf?: string;
+}
+
+export class ChangePasswordDto {
+  @IsString()
+  currentPassword: string;
+
+  @IsString()
+  @MinLength(6)
+  newPassword: string;
+}
+
+export class TwoFactorLoginDto {
+  @IsString()
+  challengeToken: string;
+
+  @IsString()
+  code: string; // 6-digit TOTP code or a recovery code
+}
+
+export class TwoFactorCodeDto {
+  @IsString()
+  code: string;
+}
+
+export class ForgotPasswordDto {
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @IsString()
+  token: string;
+
+  @IsString()
+  @MinLength(6)
+  password: string;
+}
+
+function sessionMeta(req: any): SessionMeta {
+  return {
+    userAgent: req.headers['user-agent'],
+    ipAddress: req.ip,
+  };
+}
+
 @Controller('auth')
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private twoFactorService: TwoFactorService,
+  ) {}
 
   @Post('register')
-  register(@Body() dto: RegisterDto) {
-    return this.authService.register(dto);
+  register(@Body() dto: RegisterDto, @Request() req: any) {
+    return this.authService.register(dto, sessionMeta(req));
   }
 
   @Post('login')
-  login(@Body() dto: LoginDto) {
-    return this.authService.login(dto);
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  login(@Body() dto: LoginDto, @Request() req: any) {
+    return this.authService.login(dto, sessionMeta(req));
+  }
+
+  @Post('login/2fa')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  loginTwoFactor(@Body() dto: TwoFactorLoginDto, @Request() req: any) {
+    return this.authService.loginTwoFactor(dto, sessionMeta(req));
+  }
+
+  @Post('refresh')
+  refresh(@Body() dto: RefreshTokenDto, @Request() req: any) {
+    return this.authService.refresh(dto.refreshToken, sessionMeta(req));
+  }
+
+  // ============ CURRENT USER ============
+
+  @Get('me')
+  @UseGuards(JwtAuthGuard)
+  me(@Request() req: any) {
+    return this.authService.me(req.user.sub);
+  }
+
+  @Patch('me')
+  @UseGuards(JwtAuthGuard)
+  updateProfile(@Request() req: any, @Body() dto: UpdateProfileDto, @CurrentActor() actor: AuditActor) {
+    return this.authService.updateProfile(req.user.sub, dto, actor);
+  }
+
+  @Post('me/password')
+  @UseGuards(JwtAuthGuard)
+  changePassword(@Request() req: any, @Body() dto: ChangePasswordDto, @CurrentActor() actor: AuditActor) {
+    return this.authService.changePassword(req.user.sub, req.user.sid, dto.currentPassword, dto.newPassword, actor);
+  }
+
+  // ============ PASSWORD RESET & EMAIL VERIFICATION ============
+
+  @Post('forgot-password')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  forgotPassword(@Body() dto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(dto.email);
+  }
+
+  @Post('reset-password')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  resetPassword(@Body() dto: ResetPasswordDto) {
+    return this.authService.resetPassword(dto.token, dto.password);
+  }
+
+  @Get('verify-email')
+  verifyEmail(@Query('token') token: string) {
+    return this.authService.verifyEmail(token || '');
+  }
+
+  @Post('resend-verification')
+  @UseGuards(JwtAuthGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  resendVerification(@Request() req: any) {
+    return this.authService.resendVerification(req.user.sub);
+  }
+
+  // ============ TWO-FACTOR AUTHENTICATION ============
+
+  @Post('2fa/setup')
+  @UseGuards(JwtAuthGuard)
+  setupTwoFactor(@Request() req: any) {
+    return this.twoFactorService.setup(req.user.sub);
+  }
+
+  @Post('2fa/enable')
+  @UseGuards(JwtAuthGuard)
+  enableTwoFactor(@Body() dto: TwoFactorCodeDto, @Request() req: any) {
+    return this.twoFactorService.enable(req.user.sub, req.user.sid, dto.code);
+  }
+
+  @Post('2fa/disable')
+  @UseGuards(JwtAuthGuard)
+  disableTwoFactor(@Body() dto: TwoFactorCodeDto, @Request() req: any) {
+    return this.twoFactorService.disable(req.user.sub, dto.code);
+  }
+
+  @Post('2fa/recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  regenerateRecoveryCodes(@Body() dto: TwoFactorCodeDto, @Request() req: any) {
+    return this.twoFactorService.regenerateRecoveryCodes(req.user.sub, dto.code);
+  }
+
+  // ============ SESSIONS ============
+
+  @Post('logout')
+  @UseGuards(JwtAuthGuard)
+  logout(@Request() req: any) {
+    return this.authService.logout(req.user.sid);
+  }
+
+  @Post('logout-all')
+  @UseGuards(JwtAuthGuard)
+  logoutAll(@Request() req: any) {
+    return this.authService.logoutAll(req.user.sub);
   }
 }
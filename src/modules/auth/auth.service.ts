@@ -1,14 +1,34 @@
 import { Injectable, UnauthorizedException, ConflictException, BadRequestException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { UserRole, UserStatus, SellerType } from '@prisma/client';
+import { MailerService } from '../../common/mailer/mailer.service';
+import { User, UserRole, UserStatus, SellerType, UserTokenType, LoginOutcome } from '@prisma/client';
+import { TwoFactorService } from './two-factor.service';
+import { LoginProtectionService } from './login-protection.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+import { onlyDigits } from '../../common/validators/tax-id.validator';
+
+const CNPJ_TAKEN = 'CNPJ is already registered to another account';
+
+export interface SessionMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
 
 @Injectable()
 export class AuthService {
   constructor(
     private prisma: PrismaService,
     private jwtService: JwtService,
+    private config: ConfigService,
+    private mailer: MailerService,
+    private twoFactorService: TwoFactorService,
+    private loginProtection: LoginProtectionService,
+    private auditService: AuditService,
   ) {}
 
   async register(data: {
@@ -19,7 +39,8 @@ export class AuthService {
     sellerType?: string;
     cnpj?: string;
     legalCompanyName?: string;
-  }) {
+    cpf?: string;
+  }, meta: SessionMeta = {}) {
     const existing = await this.prisma.user.findUnique({ where: { email: data.email } });
     if (existing) {
       throw new ConflictException('Email already registered');
@@ -42,6 +63,12 @@ export class AuthService {
       }
     }
 
+    // Tax IDs are stored as digits only so uniqueness checks are not fooled by formatting
+    const cnpj = data.cnpj ? onlyDigits(data.cnpj) : null;
+    if (cnpj) {
+      await this.assertCnpjAvailable(cnpj);
+    }
+
     const user = await this.prisma.user.create({
       data: {
         email: data.email,
@@ -50,58 +77,443 @@ export class AuthService {
         role: userRole,
         status: userRole === UserRole.CUSTOMER ? UserStatus.ACTIVE : UserStatus.PENDING,
         sellerType: sellerType,
-        cnpj: data.cnpj || null,
+        cnpj,
         legalCompanyName: data.legalCompanyName || null,
+        cpf: data.cpf ? onlyDigits(data.cpf) : null,
       },
-    });
+    }).catch((error) => { throw this.cnpjConflict(error); });
+
+    await this.sendVerificationEmail(user);
 
     return {
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        status: user.status,
-        sellerType: user.sellerType,
-        cnpj: user.cnpj,
-        legalCompanyName: user.legalCompanyName,
-        mercadoPagoConnected: user.mercadoPagoConnected,
-      },
-      token: this.jwtService.sign({ sub: user.id, email: user.email, role: user.role }),
+      user: this.serializeUser(user),
+      ...(await this.createSession(user, meta)),
     };
   }
 
-  async login(data: { email: string; password: string }) {
+  async login(data: { email: string; password: string }, meta: SessionMeta = {}) {
     const user = await this.prisma.user.findUnique({ where: { email: data.email } });
-    if (!user || !(await bcrypt.compare(data.password, user.password))) {
+    if (!user) {
+      await this.loginProtection.record(data.email, null, LoginOutcome.UNKNOWN_EMAIL, meta);
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    await this.loginProtection.assertCanAttempt(user, meta);
+
+    if (!(await bcrypt.compare(data.password, user.password))) {
+      await this.loginProtection.registerFailure(user, LoginOutcome.INVALID_PASSWORD, meta);
       throw new UnauthorizedException('Invalid credentials');
     }
 
     // Option B: Allow PENDING sellers to log in (with restricted permissions)
     // Only block SUSPENDED users
     if (user.status === UserStatus.SUSPENDED) {
+      await this.loginProtection.record(user.email, user.id, LoginOutcome.SUSPENDED, meta);
       throw new UnauthorizedException('Your account has been suspended. Please contact support.');
     }
 
-    // Include status and sellerType in JWT token for authorization checks
+    // Password is correct but a second factor is still required; hand out a
+    // short-lived challenge instead of a session
+    if (user.twoFactorEnabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: this.jwtService.sign(
+          { sub: user.id, purpose: '2fa' },
+          { expiresIn: '5m' },
+        ),
+      };
+    }
+
+    await this.loginProtection.registerSuccess(user, meta);
+
+    return {
+      user: this.serializeUser(user),
+      ...(await this.createSession(user, meta)),
+    };
+  }
+
+  async loginTwoFactor(data: { challengeToken: string; code: string }, meta: SessionMeta = {}) {
+    let challenge: any;
+    try {
+      challenge = this.jwtService.verify(data.challengeToken);
+    } catch {
+      throw new UnauthorizedException('Login challenge expired. Please log in again.');
+    }
+    if (challenge.purpose !== '2fa') {
+      throw new UnauthorizedException('Invalid login challenge');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: challenge.sub } });
+    if (!user || user.status === UserStatus.SUSPENDED) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    await this.loginProtection.assertCanAttempt(user, meta);
+
+    if (!(await this.twoFactorService.verify(user, data.code))) {
+      await this.loginProtection.registerFailure(user, LoginOutcome.INVALID_2FA, meta);
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    await this.loginProtection.registerSuccess(user, meta);
+
     return {
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        status: user.status,
-        sellerType: user.sellerType,
-        cnpj: user.cnpj,
-        legalCompanyName: user.legalCompanyName,
-        mercadoPagoConnected: user.mercadoPagoConnected,
+      user: this.serializeUser(user),
+      ...(await this.createSession(user, meta, true)),
+    };
+  }
+
+  // ============ CURRENT USER ============
+
+  async me(userId: string) {
+    const user = await this.findUser(userId);
+    return { user: this.serializeUser(user) };
+  }
+
+  async updateProfile(userId: string, data: { name?: string; legalCompanyName?: string; cnpj?: string; cpf?: string }, actor: AuditActor) {
+    const user = await this.findUser(userId);
+    const cnpj = data.cnpj !== undefined ? onlyDigits(data.cnpj) : undefined;
+
+    const isSeller = user.role === UserRole.SELLER;
+    if (!isSeller && (data.cnpj !== undefined || data.legalCompanyName !== undefined)) {
+      throw new BadRequestException('Business information only applies to seller accounts');
+    }
+
+    // CNPJ is what admins vet during approval, so it is frozen once the seller is reviewed
+    if (cnpj !== undefined && cnpj !== user.cnpj) {
+      if (user.status !== UserStatus.PENDING) {
+        throw new BadRequestException('CNPJ can only be changed while your seller account is pending approval. Please contact support.');
+      }
+      await this.assertCnpjAvailable(cnpj, userId);
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        name: data.name,
+        legalCompanyName: data.legalCompanyName,
+        cnpj,
+        cpf: data.cpf !== undefined ? onlyDigits(data.cpf) : undefined,
+      },
+    }).catch((error) => { throw this.cnpjConflict(error); });
+
+    await this.auditService.record(actor, {
+      action: 'user.profile.update',
+      entityType: 'User',
+      entityId: userId,
+      before: { name: user.name, legalCompanyName: user.legalCompanyName, cnpj: user.cnpj, cpf: user.cpf },
+      after: { name: updated.name, legalCompanyName: updated.legalCompanyName, cnpj: updated.cnpj, cpf: updated.cpf },
+    });
+
+    return { user: this.serializeUser(updated) };
+  }
+
+  async changePassword(userId: string, sessionId: string, currentPassword: string, newPassword: string, actor: AuditActor) {
+    const user = await this.findUser(userId);
+
+    if (!(await bcrypt.compare(currentPassword, user.password))) {
+      throw new BadRequestException('Current password is incorrect');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { password: await bcrypt.hash(newPassword, 10) },
+    });
+
+    // Sign out every other device but keep the one that made the change
+    await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null, id: { not: sessionId } },
+      data: { revokedAt: new Date() },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'user.password.change',
+      entityType: 'User',
+      entityId: userId,
+    });
+
+    return { success: true };
+  }
+
+  // Any role counts: the unique index on User.cnpj does not look at roles either
+  async assertCnpjAvailable(cnpj: string, excludeUserId?: string) {
+    const taken = await this.prisma.user.findFirst({
+      where: {
+        cnpj,
+        ...(excludeUserId && { id: { not: excludeUserId } }),
       },
-      token: this.jwtService.sign({
-        sub: user.id,
-        email: user.email,
-        role: user.role,
-        status: user.status,
+      select: { id: true },
+    });
+    if (taken) {
+      throw new ConflictException(CNPJ_TAKEN);
+    }
+  }
+
+  // For writes that set a CNPJ: a concurrent signup can pass assertCnpjAvailable too
+  cnpjConflict(error: any) {
+    if (error?.code === 'P2002' && String(error.meta?.target).includes('cnpj')) {
+      return new ConflictException(CNPJ_TAKEN);
+    }
+    return error;
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+    return user;
+  }
+
+  // ============ PASSWORD RESET & EMAIL VERIFICATION ============
+
+  async forgotPassword(email: string) {
+    const user = await this.prisma.user.findUnique({ where: { email } });
+
+    // Same response whether or not the email exists, to avoid account enumeration
+    if (user && user.status !== UserStatus.SUSPENDED) {
+      const ttlMinutes = Number(this.config.get('PASSWORD_RESET_TTL_MINUTES', 60));
+      const token = await this.issueUserToken(user.id, UserTokenType.PASSWORD_RESET, ttlMinutes);
+      const link = `${this.frontendUrl()}/reset-password?token=${token}`;
+
+      try {
+        await this.mailer.send({
+          to: user.email,
+          subject: 'Reset your password',
+          text: `Hi ${user.name},\n\nUse the link below to choose a new password. It expires in ${ttlMinutes} minutes.\n\n${link}\n\nIf you did not request this, you can ignore this email.`,
+        });
+      } catch (error) {
+        console.error('Failed to send password reset email:', error.message);
+      }
+    }
+
+    return { success: true, message: 'If the email is registered, a reset link has been sent' };
+  }
+
+  async resetPassword(token: string, password: string) {
+    const userId = await this.consumeUserToken(token, UserTokenType.PASSWORD_RESET);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { password: await bcrypt.hash(password, 10) },
+    });
+
+    // Anyone holding the old password may also hold a session
+    await this.revokeAllSessions(userId);
+
+    return { success: true };
+  }
+
+  async verifyEmail(token: string) {
+    const userId = await this.consumeUserToken(token, UserTokenType.EMAIL_VERIFICATION);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    return { success: true, emailVerified: true };
+  }
+
+  async resendVerification(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Email is already verified');
+    }
+
+    await this.sendVerificationEmail(user);
+    return { success: true };
+  }
+
+  private async sendVerificationEmail(user: User) {
+    const ttlHours = Number(this.config.get('EMAIL_VERIFICATION_TTL_HOURS', 48));
+    const token = await this.issueUserToken(user.id, UserTokenType.EMAIL_VERIFICATION, ttlHours * 60);
+    const link = `${this.frontendUrl()}/verify-email?token=${token}`;
+
+    try {
+      await this.mailer.send({
+        to: user.email,
+        subject: 'Confirm your email address',
+        text: `Hi ${user.name},\n\nPlease confirm your email address by opening the link below. It expires in ${ttlHours} hours.\n\n${link}`,
+      });
+    } catch (error) {
+      // Registration should not fail because the mail server is down; the user can ask for a resend
+      console.error('Failed to send verification email:', error.message);
+    }
+  }
+
+  // Issuing a new token invalidates any unused token of the same type
+  private async issueUserToken(userId: string, type: UserTokenType, ttlMinutes: number) {
+    const token = randomBytes(32).toString('base64url');
+
+    await this.prisma.$transaction([
+      this.prisma.userToken.updateMany({
+        where: { userId, type, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      this.prisma.userToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: this.hashToken(token),
+          expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+        },
       }),
+    ]);
+
+    return token;
+  }
+
+  private async consumeUserToken(token: string, type: UserTokenType): Promise<string> {
+    const record = await this.prisma.userToken.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+
+    if (!record || record.type !== type || record.usedAt || record.expiresAt.getTime() < Date.now()) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    // Conditional update so two concurrent requests cannot both use the token
+    const { count } = await this.prisma.userToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return record.userId;
+  }
+
+  private frontendUrl() {
+    return this.config.get('FRONTEND_URL') || 'https://www.visaonaweb.com.br';
+  }
+
+  // ============ SESSIONS ============
+
+  async refresh(refreshToken: string, meta: SessionMeta = {}) {
+    const [sessionId, secret] = refreshToken.split('.');
+    if (!sessionId || !secret) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { user: true },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt.getTime() < Date.now()) {
+      throw new UnauthorizedException('Session expired. Please log in again.');
+    }
+
+    // A valid session presented with an old secret means the token was rotated
+    // already and is being replayed, so kill the session for everyone holding it
+    if (session.refreshTokenHash !== this.hashToken(secret)) {
+      await this.revokeSession(session.id);
+      throw new UnauthorizedException('Session expired. Please log in again.');
+    }
+
+    if (session.user.status === UserStatus.SUSPENDED) {
+      await this.revokeAllSessions(session.userId);
+      throw new UnauthorizedException('Your account has been suspended. Please contact support.');
+    }
+
+    const newSecret = randomBytes(32).toString('base64url');
+    await this.prisma.session.update({
+      where: { id: session.id },
+      data: {
+        refreshTokenHash: this.hashToken(newSecret),
+        lastUsedAt: new Date(),
+        userAgent: meta.userAgent ?? session.userAgent,
+        ipAddress: meta.ipAddress ?? session.ipAddress,
+      },
+    });
+
+    return {
+      user: this.serializeUser(session.user),
+      token: this.signAccessToken(session.user, session.id, session.twoFactorVerified),
+      refreshToken: `${session.id}.${newSecret}`,
+    };
+  }
+
+  async logout(sessionId: string) {
+    await this.revokeSession(sessionId);
+    return { success: true };
+  }
+
+  async logoutAll(userId: string) {
+    const revoked = await this.revokeAllSessions(userId);
+    return { success: true, revoked };
+  }
+
+  async revokeSession(sessionId: string) {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async revokeAllSessions(userId: string): Promise<number> {
+    const { count } = await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  private async createSession(user: User, meta: SessionMeta, twoFactorVerified = false) {
+    const ttlDays = Number(this.config.get('REFRESH_TOKEN_TTL_DAYS', 30));
+    const secret = randomBytes(32).toString('base64url');
+
+    const session = await this.prisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: this.hashToken(secret),
+        userAgent: meta.userAgent || null,
+        ipAddress: meta.ipAddress || null,
+        twoFactorVerified,
+        expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    return {
+      token: this.signAccessToken(user, session.id, twoFactorVerified),
+      refreshToken: `${session.id}.${secret}`,
+    };
+  }
+
+  // Include status in JWT token for authorization checks; sid ties the token
+  // to a session row so JwtAuthGuard can reject it once the session is revoked,
+  // and mfa lets RolesGuard require a 2FA-verified session
+  private signAccessToken(user: User, sessionId: string, twoFactorVerified: boolean) {
+    return this.jwtService.sign({
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      status: user.status,
+      sid: sessionId,
+      mfa: twoFactorVerified,
+    });
+  }
+
+  private hashToken(secret: string) {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private serializeUser(user: User) {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      status: user.status,
+      sellerType: user.sellerType,
+      cnpj: user.cnpj,
+      legalCompanyName: user.legalCompanyName,
+      cpf: user.cpf,
+      mercadoPagoConnected: user.mercadoPagoConnected,
+      emailVerified: !!user.emailVerifiedAt,
+      twoFactorEnabled: user.twoFactorEnabled,
     };
   }
 }
@@ -0,0 +1,106 @@
+import { Injectable, HttpException, HttpStatus, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoginOutcome, User } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { SessionMeta } from './auth.service';
+
+// Failures allowed before each further attempt has to wait
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY_SECONDS = 60;
+
+@Injectable()
+export class LoginProtectionService {
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {}
+
+  /**
+   * Rejects the attempt while the account is locked or still inside its
+   * backoff window. The wait doubles with every failure past FREE_ATTEMPTS.
+   */
+  async assertCanAttempt(user: User, meta: SessionMeta) {
+    const now = Date.now();
+
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      await this.record(user.email, user.id, LoginOutcome.LOCKED, meta);
+      const minutes = Math.ceil((user.lockedUntil.getTime() - now) / 60000);
+      throw new HttpException(
+        `Account temporarily locked after too many failed attempts. Try again in ${minutes} minute(s).`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    if (user.failedLoginAttempts >= FREE_ATTEMPTS && user.lastFailedLoginAt) {
+      const delaySeconds = Math.min(2 ** (user.failedLoginAttempts - FREE_ATTEMPTS), MAX_DELAY_SECONDS);
+      const retryAt = user.lastFailedLoginAt.getTime() + delaySeconds * 1000;
+      if (retryAt > now) {
+        await this.record(user.email, user.id, LoginOutcome.LOCKED, meta);
+        throw new HttpException(
+          `Too many failed attempts. Try again in ${Math.ceil((retryAt - now) / 1000)} second(s).`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+  }
+
+  async registerFailure(user: User, outcome: LoginOutcome, meta: SessionMeta) {
+    const maxAttempts = Number(this.config.get('LOGIN_MAX_ATTEMPTS', 10));
+    const lockoutMinutes = Number(this.config.get('LOGIN_LOCKOUT_MINUTES', 15));
+
+    const updated = await this.prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: new Date() },
+      select: { failedLoginAttempts: true },
+    });
+
+    // Lock and start a fresh count, so the backoff restarts after the lockout ends
+    if (updated.failedLoginAttempts >= maxAttempts) {
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: {
+          failedLoginAttempts: 0,
+          lockedUntil: new Date(Date.now() + lockoutMinutes * 60000),
+        },
+      });
+    }
+
+    await this.record(user.email, user.id, outcome, meta);
+  }
+
+  async registerSuccess(user: User, meta: SessionMeta) {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+      });
+    }
+
+    await this.record(user.email, user.id, LoginOutcome.SUCCESS, meta);
+  }
+
+  async record(email: string, userId: string | null, outcome: LoginOutcome, meta: SessionMeta) {
+    await this.prisma.loginAttempt.create({
+      data: {
+        email,
+        userId,
+        outcome,
+        ipAddress: meta.ipAddress || null,
+        userAgent: meta.userAgent || null,
+      },
+    });
+  }
+
+  async unlock(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+      select: { id: true, email: true, failedLoginAttempts: true, lockedUntil: true },
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { authenticator } from 'otplib';
+import * as QRCode from 'qrcode';
+import { createHash, randomBytes } from 'crypto';
+import { User, UserRole } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Accept the previous and next 30s step to tolerate clock drift on phones
+authenticator.options = { window: 1 };
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {}
+
+  async setup(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+
+    // The secret is stored right away but only takes effect once enable() confirms a code
+    const secret = authenticator.generateSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: secret },
+    });
+
+    const issuer = this.config.get('TWO_FACTOR_ISSUER') || 'Optical Market';
+    const otpauthUrl = authenticator.keyuri(user.email, issuer, secret);
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  async enable(userId: string, sessionId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is already enabled');
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+    if (!authenticator.check(code, user.twoFactorSecret)) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorEnabled: true,
+          twoFactorRecoveryCodes: recoveryCodes.map((c) => this.hashCode(c)),
+        },
+      }),
+      // The user just proved possession of the authenticator in this session
+      this.prisma.session.update({
+        where: { id: sessionId },
+        data: { twoFactorVerified: true },
+      }),
+    ]);
+
+    return { enabled: true, recoveryCodes };
+  }
+
+  async disable(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (user.role === UserRole.ADMIN && this.isEnforcedForAdmins()) {
+      throw new BadRequestException('Two-factor authentication is mandatory for admin accounts');
+    }
+    if (!(await this.verify(user, code))) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorRecoveryCodes: [] },
+    });
+
+    return { enabled: false };
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!authenticator.check(code, user.twoFactorSecret)) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map((c) => this.hashCode(c)) },
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Checks a TOTP code, falling back to a recovery code. Recovery codes are
+   * single-use and removed from the user once accepted.
+   */
+  async verify(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+    const normalized = code.replace(/\s+/g, '');
+    if (/^\d{6}$/.test(normalized)) {
+      return authenticator.check(normalized, user.twoFactorSecret);
+    }
+
+    const hash = this.hashCode(normalized.toLowerCase());
+    if (!user.twoFactorRecoveryCodes.includes(hash)) return false;
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter((c) => c !== hash) },
+    });
+    return true;
+  }
+
+  isEnforcedForAdmins() {
+    return this.config.get('ENFORCE_ADMIN_2FA') === 'true';
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private generateRecoveryCodes() {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  private hashCode(code: string) {
+    return createHash('sha256').update(code).digest('hex');
+  }
+}
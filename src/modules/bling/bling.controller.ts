@@ -1,7 +1,10 @@
-import { Controller, Get, Post, Body, Query, Res, UseGuards, Request } from '@nestjs/common';
+import { Controller, Get, Post, Body, Query, Res, UseGuards } from '@nestjs/common';
 import { Response } from 'express';
 import { BlingService } from './bling.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { SellerContextGuard } from '../../common/guards/seller-context.guard';
+import { Roles, UserRole } from '../../common/decorators/roles.decorator';
+import { SellerScope, SellerPermission, CurrentSeller, SellerContext } from '../../common/decorators/seller-scope.decorator';
 import { ConfigService } from '@nestjs/config';
 
 @Controller('bling')
@@ -16,17 +19,21 @@ export class BlingController {
   }
 
   @Post('credentials')
-  @UseGuards(JwtAuthGuard)
-  async saveCredentials(@Request() req: any, @Body() body: { clientId: string; clientSecret: string; state: string }) {
-    const userId = req.user.sub;
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @SellerScope(SellerPermission.INTEGRATIONS)
+  async saveCredentials(@CurrentSeller() seller: SellerContext, @Body() body: { clientId: string; clientSecret: string; state: string }) {
+    const userId = seller.sellerId;
     await this.blingService.saveCredentials(userId, body.clientId, body.clientSecret, body.state);
     return { success: true };
   }
 
   @Get('status')
-  @UseGuards(JwtAuthGuard)
-  async getStatus(@Request() req: any) {
-    const userId = req.user.sub;
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @SellerScope(SellerPermission.INTEGRATIONS)
+  async getStatus(@CurrentSeller() seller: SellerContext) {
+    const userId = seller.sellerId;
     const configured = await this.blingService.isConfigured(userId);
     const status = await this.blingService.getConnectionStatus(userId);
     return {
@@ -59,16 +66,20 @@ export class BlingController {
   }
 
   @Get('sync/products')
-  @UseGuards(JwtAuthGuard)
-  async syncProducts(@Request() req: any) {
-    const userId = req.user.sub;
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @SellerScope(SellerPermission.INTEGRATIONS)
+  async syncProducts(@CurrentSeller() seller: SellerContext) {
+    const userId = seller.sellerId;
     return await this.blingService.syncProducts(userId);
   }
 
   @Get('sync/categories')
-  @UseGuards(JwtAuthGuard)
-  async syncCategories(@Request() req: any) {
-    const userId = req.user.sub;
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @SellerScope(SellerPermission.INTEGRATIONS)
+  async syncCategories(@CurrentSeller() seller: SellerContext) {
+    const userId = seller.sellerId;
     return await this.blingService.syncCategories(userId);
   }
 }
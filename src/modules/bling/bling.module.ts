@@ -3,9 +3,13 @@ import { JwtModule } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { BlingService } from './bling.service';
 import { BlingController } from './bling.controller';
+import { AttributesModule } from '../attributes/attributes.module';
+import { ProductModerationModule } from '../products/product-moderation.module';
 
 @Module({
   imports: [
+    AttributesModule,
+    ProductModerationModule,
     JwtModule.registerAsync({
       inject: [ConfigService],
       useFactory: (config: ConfigService) => ({
@@ -1,7 +1,51 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import axios from 'axios';
+import { AttributesService } from '../attributes/attributes.service';
+import { ProductModerationService, ModeratedField } from '../products/product-moderation.service';
+
+export interface BlingVariationData {
+  sku: string;
+  price: number;
+  color?: string | null;
+  size?: string | null;
+  blingId?: string | null;
+}
+
+export interface BlingProductData {
+  sku: string;
+  name: string;
+  description?: string;
+  price: number;
+  stock: number;
+  // Public URLs, cover first
+  images?: string[];
+  blingCategoryId?: number;
+  variations?: BlingVariationData[];
+  customFields?: { id: string; value: string }[];
+}
+
+// Bling names variations as "Cor:Preto;Tamanho:52-18-140"
+function formatVariationName(variation: { color?: string | null; size?: string | null }): string {
+  const parts: string[] = [];
+  if (variation.color) parts.push(`Cor:${variation.color}`);
+  if (variation.size) parts.push(`Tamanho:${variation.size}`);
+  return parts.join(';');
+}
+
+function parseVariationName(name: string | undefined): { color: string | null; size: string | null } {
+  const result = { color: null as string | null, size: null as string | null };
+  for (const part of (name || '').split(';')) {
+    const [key, ...rest] = part.split(':');
+    const value = rest.join(':').trim();
+    const normalized = key.trim().toLowerCase();
+    if (!value) continue;
+    if (normalized === 'cor' || normalized === 'color') result.color = value;
+    else if (normalized === 'tamanho' || normalized === 'size') result.size = value;
+  }
+  return result;
+}
 
 @Injectable()
 export class BlingService {
@@ -9,7 +53,11 @@ export class BlingService {
   private apiUrl: string;
   private prisma: PrismaClient;
 
-  constructor(private config: ConfigService) {
+  constructor(
+    private config: ConfigService,
+    private attributesService: AttributesService,
+    private moderationService: ProductModerationService,
+  ) {
     this.redirectUri = this.config.get('BLING_REDIRECT_URI') || 'https://opticalmarket-backend-6pfl.onrender.com/api/bling/callback';
     this.apiUrl = this.config.get('BLING_API_URL') || 'https://www.bling.com.br/Api/v3';
     this.prisma = new PrismaClient();
@@ -271,12 +319,13 @@ export class BlingService {
 
           let savedCategory;
           if (existingCategory) {
-            // Update existing category
+            // Update existing category; one deleted here comes back while it exists in Bling
             savedCategory = await this.prisma.category.update({
               where: { id: existingCategory.id },
               data: {
                 name: blingCategory.descricao,
                 slug,
+                deletedAt: null,
               },
             });
           } else {
@@ -350,14 +399,12 @@ export class BlingService {
         console.log('Bling product structure sample:', JSON.stringify(blingProducts[0], null, 2));
       }
 
-      // Delete all existing products for this user (or unowned products) before syncing
-      await this.prisma.product.deleteMany({
-        where: {
-          OR: [
-            { sellerId: userId },
-            { sellerId: null },
-          ],
-        },
+      // Linked products that left Bling are soft-deleted (admins can restore them).
+      // Products created here or imported from a spreadsheet are not Bling's to remove.
+      const listedIds = blingProducts.map((product: any) => product.id?.toString()).filter(Boolean);
+      await this.prisma.product.updateMany({
+        where: { sellerId: userId, blingId: { not: null, notIn: listedIds }, deletedAt: null },
+        data: { deletedAt: new Date() },
       });
 
       if (blingProducts.length === 0) {
@@ -402,6 +449,11 @@ export class BlingService {
             console.log('Bling product FULL detail sample:', JSON.stringify(blingProduct, null, 2));
           }
 
+          // Variations are listed on their own too; they are imported with their parent
+          if (blingProduct.variacao?.produtoPai?.id) {
+            continue;
+          }
+
           // Find category by blingId - skip product if no valid category
           if (!blingProduct.categoria?.id) {
             errors.push({
@@ -426,22 +478,74 @@ export class BlingService {
             continue;
           }
 
-          // Get image URL from linkExterno
-          const images: string[] = blingProduct.linkExterno ? [blingProduct.linkExterno] : [];
-
-          const savedProduct = await this.prisma.product.create({
-            data: {
-              sku: blingProduct.codigo,
-              name: blingProduct.nome || 'Unnamed Product',
-              description: blingProduct.descricao || null,
-              price: parseFloat(blingProduct.preco) || 0,
-              stock: blingProduct.estoque?.saldoVirtualTotal || 0,
-              images: images,
-              categoryId: category.id,
-              sellerId: userId,
-              blingId: blingProduct.id?.toString() || null,
-            },
+          // Gallery from the product media, falling back to linkExterno for older listings
+          const gallery: string[] = [
+            ...(blingProduct.midia?.imagens?.externas || []),
+            ...(blingProduct.midia?.imagens?.internas || []),
+          ].map((image: any) => image.link).filter(Boolean);
+          const images: string[] = gallery.length > 0
+            ? gallery
+            : blingProduct.linkExterno ? [blingProduct.linkExterno] : [];
+
+          const price = parseFloat(blingProduct.preco) || 0;
+          const variations: any[] = blingProduct.formato === 'V' ? (blingProduct.variacoes || []) : [];
+          const variants = variations
+            .filter((variation) => variation.codigo && variation.codigo.trim() !== '')
+            .map((variation, index) => {
+              const variantPrice = parseFloat(variation.preco) || 0;
+              return {
+                sku: variation.codigo,
+                ...parseVariationName(variation.variacao?.nome),
+                // Only keep a price override when it differs from the parent
+                price: variantPrice && variantPrice !== price ? variantPrice : null,
+                stock: variation.estoque?.saldoVirtualTotal || 0,
+                blingId: variation.id?.toString() || null,
+                position: variation.variacao?.ordem ?? index,
+              };
+            });
+
+          const data = {
+            name: blingProduct.nome || 'Unnamed Product',
+            description: blingProduct.descricao || null,
+            price,
+            stock: variants.length > 0
+              ? variants.reduce((sum, variant) => sum + variant.stock, 0)
+              : blingProduct.estoque?.saldoVirtualTotal || 0,
+            images: images,
+            // Bling images are linked, not processed, so there are no resized copies (as for any URL-only image)
+            imageSizes: images.map(() => null) as Prisma.InputJsonArray,
+            categoryId: category.id,
+            sellerId: userId,
+            blingId: blingProduct.id?.toString() || null,
+          };
+
+          // Products seen on an earlier sync are updated in place
+          const existing = await this.prisma.product.findUnique({
+            where: { sku: blingProduct.codigo },
+            select: { id: true, sellerId: true, deletedAt: true, name: true, description: true, images: true },
           });
+          if (existing && ((existing.sellerId && existing.sellerId !== userId) || existing.deletedAt)) {
+            errors.push({
+              product: blingProduct.nome || blingProduct.codigo,
+              error: existing.deletedAt ? 'SKU belongs to a deleted product' : 'SKU belongs to another seller',
+            });
+            continue;
+          }
+
+          const savedProduct = existing
+            ? await this.updateSyncedProduct(existing, data, variants)
+            : await this.prisma.product.create({
+                data: {
+                  sku: blingProduct.codigo,
+                  ...data,
+                  variants: variants.length > 0 ? { create: variants } : undefined,
+                  gallery: { create: images.map((url, position) => ({ url, position })) },
+                },
+                include: { variants: true },
+              });
+
+          // Custom fields linked to category attributes become product attributes
+          await this.attributesService.importBlingFields(savedProduct.id, category.id, blingProduct.camposCustomizados);
 
           savedProducts.push(savedProduct);
         } catch (productError) {
@@ -497,6 +601,52 @@ export class BlingService {
     }
   }
 
+  /**
+   * Brings an existing product in line with Bling. Variants are matched by
+   * SKU; ones that left Bling but were ordered stay with no stock. Content
+   * changes send an approved product back to moderation, as seller edits do.
+   */
+  private async updateSyncedProduct(
+    existing: { id: string; name: string; description: string | null; images: string[] },
+    data: Prisma.ProductUncheckedUpdateInput & { name: string; description: string | null; images: string[] },
+    variants: { sku: string; color: string | null; size: string | null; price: number | null; stock: number; blingId: string | null; position: number }[],
+  ) {
+    const productId = existing.id;
+    const skus = variants.map((variant) => variant.sku);
+    const imagesChanged = JSON.stringify(existing.images) !== JSON.stringify(data.images);
+
+    const changed: ModeratedField[] = [];
+    if (data.name !== existing.name) changed.push('name');
+    if (data.description !== existing.description) changed.push('description');
+    if (imagesChanged) changed.push('images');
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.productVariant.deleteMany({
+        where: { productId, sku: { notIn: skus }, orderItems: { none: {} }, reservations: { none: {} } },
+      });
+      await tx.productVariant.updateMany({ where: { productId, sku: { notIn: skus } }, data: { stock: 0 } });
+      for (const variant of variants) {
+        const owner = await tx.productVariant.findUnique({ where: { sku: variant.sku }, select: { productId: true } });
+        if (owner && owner.productId !== productId) {
+          throw new Error(`Variant SKU ${variant.sku} belongs to another product`);
+        }
+        await tx.productVariant.upsert({
+          where: { sku: variant.sku },
+          create: { ...variant, productId },
+          update: variant,
+        });
+      }
+
+      if (imagesChanged) {
+        await tx.productImage.deleteMany({ where: { productId } });
+        await tx.productImage.createMany({ data: data.images.map((url, position) => ({ productId, url, position })) });
+      }
+      await this.moderationService.returnToPending(productId, changed, tx);
+
+      return tx.product.update({ where: { id: productId }, data, include: { variants: true } });
+    });
+  }
+
   async isConfigured(userId: string): Promise<boolean> {
     const token = await this.prisma.blingToken.findUnique({
       where: { userId },
@@ -536,6 +686,7 @@ export class BlingService {
   async findOrCreateContact(accessToken: string, customerData: {
     name: string;
     email: string;
+    cpf?: string;
   }): Promise<number> {
     // First, try to find existing contact by email
     try {
@@ -566,6 +717,8 @@ export class BlingService {
       nome: customerData.name,
       tipo: 'F', // F = Pessoa Física (individual)
       email: customerData.email,
+      // CPF, required by Bling to issue the NF-e
+      ...(customerData.cpf && { numeroDocumento: customerData.cpf }),
     };
 
     console.log('Creating new contact in Bling:', contactData);
@@ -592,6 +745,7 @@ export class BlingService {
     customer: {
       name: string;
       email: string;
+      cpf?: string;
     };
     address: {
       street: string;
@@ -611,6 +765,8 @@ export class BlingService {
     }>;
     total: number;
     paymentMethod: string;
+    // Extra lines for the seller, e.g. the prescription of made-to-order lenses
+    notes?: string[];
   }): Promise<any> {
     try {
       const accessToken = await this.getValidAccessToken(userId);
@@ -652,7 +808,7 @@ export class BlingService {
             pais: 'Brasil',
           },
         },
-        observacoes: `Payment: ${orderData.paymentMethod}`,
+        observacoes: [`Payment: ${orderData.paymentMethod}`, ...(orderData.notes || [])].join('\n'),
       };
 
       console.log('Creating order in Bling:', JSON.stringify(blingOrderData, null, 2));
@@ -709,60 +865,13 @@ export class BlingService {
     }
   }
 
-  async pushProductToBling(userId: string, productData: {
-    sku: string;
-    name: string;
-    description?: string;
-    price: number;
-    stock: number;
-    blingImageUrl?: string;
-    blingCategoryId?: number;
-  }): Promise<any> {
+  async pushProductToBling(userId: string, productData: BlingProductData): Promise<any> {
     try {
       const accessToken = await this.getValidAccessToken(userId);
 
-      const blingProductData: any = {
-        nome: productData.name,
-        codigo: productData.sku,
-        preco: productData.price,
-        tipo: 'P',
-        situacao: 'A',
-        formato: 'S',
-        descricaoCurta: productData.description?.substring(0, 255) || productData.name,
-        descricao: productData.description || '',
-        unidade: 'UN',
-        pesoLiquido: 0.1,
-        pesoBruto: 0.1,
-        estoque: {
-          minimo: 0,
-          maximo: 9999,
-          crossdocking: 0,
-          localizacao: ''
-        },
-        actionEstoque: 'A',
-        dimensoes: {
-          largura: 0,
-          altura: 0,
-          profundidade: 0,
-          unidadeMedida: 1
-        },
-        marca: '',
-        gtin: '',
-        gtinEmbalagem: '',
-        tipoProducao: 'P',
-        condicao: 0,
-        freteGratis: false,
-        linkExterno: productData.blingImageUrl || '',
-        observacoes: '',
-        descricaoComplementar: '',
-        categoria: {
-          id: productData.blingCategoryId || null
-        },
-      };
-
       const response = await axios.post(
         `${this.apiUrl}/produtos`,
-        blingProductData,
+        this.buildProductPayload(productData),
         {
           headers: {
             'Authorization': `Bearer ${accessToken}`,
@@ -775,34 +884,139 @@ export class BlingService {
       return {
         success: true,
         data: response.data,
+        blingId: response.data?.data?.id?.toString() || null,
         message: 'Product successfully created in Bling ERP',
       };
     } catch (error) {
       console.error('Failed to push product to Bling:', JSON.stringify(error.response?.data, null, 2) || error.message);
+      return this.productErrorResult(error, 'Failed to create product in Bling ERP', 'PUSH_ERROR');
+    }
+  }
 
-      if (error.response?.status === 401) {
-        return {
-          success: false,
-          error: 'Authentication failed. Please reconnect your Bling account.',
-          code: 'AUTH_ERROR',
-        };
-      }
+  async updateProductInBling(userId: string, blingId: string, productData: BlingProductData): Promise<any> {
+    try {
+      const accessToken = await this.getValidAccessToken(userId);
 
-      if (error.response?.status === 400) {
-        return {
-          success: false,
-          error: 'Invalid product data. Please check the product details.',
-          code: 'VALIDATION_ERROR',
-          details: error.response?.data,
-        };
-      }
+      const response = await axios.put(
+        `${this.apiUrl}/produtos/${blingId}`,
+        this.buildProductPayload(productData),
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      return {
+        success: true,
+        data: response.data,
+        message: 'Product successfully updated in Bling ERP',
+      };
+    } catch (error) {
+      console.error('Failed to update product in Bling:', JSON.stringify(error.response?.data, null, 2) || error.message);
+      return this.productErrorResult(error, 'Failed to update product in Bling ERP', 'UPDATE_ERROR');
+    }
+  }
+
+  private buildProductPayload(productData: BlingProductData): any {
+    const hasVariations = !!productData.variations?.length;
 
+    return {
+      nome: productData.name,
+      codigo: productData.sku,
+      preco: productData.price,
+      tipo: 'P',
+      situacao: 'A',
+      // 'V' marks a parent product whose variations carry their own SKU and stock
+      formato: hasVariations ? 'V' : 'S',
+      descricaoCurta: productData.description?.substring(0, 255) || productData.name,
+      descricao: productData.description || '',
+      unidade: 'UN',
+      pesoLiquido: 0.1,
+      pesoBruto: 0.1,
+      estoque: {
+        minimo: 0,
+        maximo: 9999,
+        crossdocking: 0,
+        localizacao: ''
+      },
+      actionEstoque: 'A',
+      dimensoes: {
+        largura: 0,
+        altura: 0,
+        profundidade: 0,
+        unidadeMedida: 1
+      },
+      marca: '',
+      gtin: '',
+      gtinEmbalagem: '',
+      tipoProducao: 'P',
+      condicao: 0,
+      freteGratis: false,
+      linkExterno: productData.images?.[0] || '',
+      observacoes: '',
+      descricaoComplementar: '',
+      categoria: {
+        id: productData.blingCategoryId || null
+      },
+      ...(productData.images?.length && {
+        midia: {
+          imagens: {
+            externas: productData.images.map((link) => ({ link })),
+          },
+        },
+      }),
+      ...(productData.customFields?.length && {
+        camposCustomizados: productData.customFields.map((field) => ({
+          idCampoCustomizado: Number(field.id),
+          valor: field.value,
+        })),
+      }),
+      ...(hasVariations && {
+        variacoes: productData.variations!.map((variation, index) => ({
+          ...(variation.blingId && { id: Number(variation.blingId) }),
+          nome: [productData.name, variation.color, variation.size].filter(Boolean).join(' '),
+          codigo: variation.sku,
+          preco: variation.price,
+          tipo: 'P',
+          situacao: 'A',
+          formato: 'S',
+          unidade: 'UN',
+          variacao: {
+            nome: formatVariationName(variation),
+            ordem: index + 1,
+            produtoPai: { cloneInfo: true },
+          },
+        })),
+      }),
+    };
+  }
+
+  private productErrorResult(error: any, fallbackMessage: string, code: string) {
+    if (error.response?.status === 401) {
       return {
         success: false,
-        error: error.message || 'Failed to create product in Bling ERP',
-        code: 'PUSH_ERROR',
+        error: 'Authentication failed. Please reconnect your Bling account.',
+        code: 'AUTH_ERROR',
+      };
+    }
+
+    if (error.response?.status === 400) {
+      return {
+        success: false,
+        error: 'Invalid product data. Please check the product details.',
+        code: 'VALIDATION_ERROR',
         details: error.response?.data,
       };
     }
+
+    return {
+      success: false,
+      error: error.message || fallbackMessage,
+      code,
+      details: error.response?.data,
+    };
   }
 }
@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, ConflictException, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { BlingService } from '../bling/bling.service';
 
@@ -13,8 +13,8 @@ export class CategoriesService {
     // If user is ADMIN or SELLER, return only their categories
     // If user is CUSTOMER or not authenticated, return all categories
     const where = (userId && (userRole === 'ADMIN' || userRole === 'SELLER'))
-      ? { userId }
-      : {};
+      ? { userId, deletedAt: null }
+      : { deletedAt: null };
 
     return this.prisma.category.findMany({
       where,
@@ -29,7 +29,7 @@ export class CategoriesService {
 
   async findOne(id: string, userId: string) {
     return this.prisma.category.findFirst({
-      where: { id, userId },
+      where: { id, userId, deletedAt: null },
       include: {
         _count: {
           select: { products: true },
@@ -39,6 +39,17 @@ export class CategoriesService {
   }
 
   async create(data: { name: string; slug: string }, userId: string) {
+    // The slug of a deleted category is still taken; bring that category back instead
+    const deleted = await this.prisma.category.findFirst({
+      where: { slug: data.slug, userId, deletedAt: { not: null } },
+    });
+    if (deleted) {
+      return this.prisma.category.update({
+        where: { id: deleted.id },
+        data: { name: data.name, deletedAt: null },
+      });
+    }
+
     let blingId: number | undefined;
 
     // If Bling is connected, create in Bling first
@@ -66,7 +77,7 @@ export class CategoriesService {
 
   async update(id: string, data: Partial<{ name: string; slug: string }>, userId: string) {
     const category = await this.prisma.category.findFirst({
-      where: { id, userId },
+      where: { id, userId, deletedAt: null },
     });
 
     if (!category) {
@@ -93,15 +104,30 @@ export class CategoriesService {
   async delete(id: string, userId: string) {
     // First check if category belongs to user
     const category = await this.prisma.category.findFirst({
-      where: { id, userId },
+      where: { id, userId, deletedAt: null },
     });
 
     if (!category) {
       throw new Error('Category not found or you do not have permission to delete it');
     }
 
-    return this.prisma.category.delete({
+    // Soft delete, so products and past orders keep resolving the category
+    const products = await this.prisma.product.count({ where: { categoryId: id, deletedAt: null } });
+    if (products > 0) {
+      throw new ConflictException(`Category still has ${products} product(s); move or delete them first`);
+    }
+
+    return this.prisma.category.update({
       where: { id },
+      data: { deletedAt: new Date() },
     });
   }
+
+  async restore(id: string) {
+    const category = await this.prisma.category.findUnique({ where: { id } });
+    if (!category || !category.deletedAt) {
+      throw new NotFoundException('Deleted category not found');
+    }
+    return this.prisma.category.update({ where: { id }, data: { deletedAt: null } });
+  }
 }
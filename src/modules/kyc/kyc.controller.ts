@@ -0,0 +1,41 @@
+import { Controller, Get, Post, Delete, Body, Param, UseGuards, Request, UseInterceptors, UploadedFile } from '@nestjs/common';
+import { IsEnum } from 'class-validator';
+import { KycDocumentType } from '@prisma/client';
+import { KycService } from './kyc.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles, UserRole } from '../../common/decorators/roles.decorator';
+import { UploadInterceptor } from '../../common/uploads/upload.interceptor';
+import { UPLOAD_RULES } from '../../common/uploads/upload-rules';
+
+export class UploadDocumentDto {
+  @IsEnum(KycDocumentType)
+  type: KycDocumentType;
+}
+
+@Controller('seller/kyc')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SELLER)
+export class KycController {
+  constructor(private kycService: KycService) {}
+
+  @Get('documents')
+  listDocuments(@Request() req: any) {
+    return this.kycService.listDocuments(req.user.sub);
+  }
+
+  @Post('documents')
+  @UseInterceptors(UploadInterceptor('file', UPLOAD_RULES.document))
+  uploadDocument(
+    @Request() req: any,
+    @Body() dto: UploadDocumentDto,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.kycService.uploadDocument(req.user.sub, dto.type, file);
+  }
+
+  @Delete('documents/:id')
+  deleteDocument(@Param('id') id: string, @Request() req: any) {
+    return this.kycService.deleteDocument(req.user.sub, id);
+  }
+}
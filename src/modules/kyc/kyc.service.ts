@@ -0,0 +1,149 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { KycDocumentStatus, KycDocumentType, SellerType, User } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { StorageService } from '../../common/storage/storage.service';
+import { extensionFor } from '../../common/uploads/file-signatures';
+import { UploadException } from '../../common/uploads/upload-rules';
+import { AuditService } from '../audit/audit.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+
+const DOCUMENT_LABELS: Record<KycDocumentType, string> = {
+  CONTRATO_SOCIAL: 'Contrato social',
+  ALVARA_SANITARIO: 'Alvará sanitário',
+  OTHER: 'Other document',
+};
+
+@Injectable()
+export class KycService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private storage: StorageService,
+  ) {}
+
+  // Every seller needs its articles of incorporation; optical shops selling to
+  // consumers also need the health-surveillance permit
+  requiredDocumentTypes(sellerType: SellerType | null): KycDocumentType[] {
+    return sellerType === SellerType.B2C_MERCHANT
+      ? [KycDocumentType.CONTRATO_SOCIAL, KycDocumentType.ALVARA_SANITARIO]
+      : [KycDocumentType.CONTRATO_SOCIAL];
+  }
+
+  async listDocuments(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { sellerType: true } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const documents = await this.prisma.sellerDocument.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      required: this.requiredDocumentTypes(user.sellerType),
+      documents,
+    };
+  }
+
+  async uploadDocument(userId: string, type: KycDocumentType, file: Express.Multer.File) {
+    if (!file) {
+      throw new UploadException('FILE_REQUIRED', 'File is required', { field: 'file' });
+    }
+
+    const fileKey = `kyc/${userId}/${randomUUID()}${extensionFor(file.mimetype)}`;
+    await this.storage.putFile(file, fileKey);
+
+    return this.prisma.sellerDocument.create({
+      data: {
+        userId,
+        type,
+        fileKey,
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+      },
+    });
+  }
+
+  async deleteDocument(userId: string, documentId: string) {
+    const document = await this.prisma.sellerDocument.findFirst({ where: { id: documentId, userId } });
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+    if (document.status === KycDocumentStatus.APPROVED) {
+      throw new BadRequestException('Approved documents cannot be removed');
+    }
+
+    await this.prisma.sellerDocument.delete({ where: { id: documentId } });
+    await this.storage.delete(document.fileKey);
+    return { deleted: true };
+  }
+
+  async getDocumentFile(documentId: string) {
+    const document = await this.prisma.sellerDocument.findUnique({ where: { id: documentId } });
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    return {
+      document,
+      // KYC files are never linked publicly; admins fetch them through the API
+      stream: await this.storage.get(document.fileKey),
+    };
+  }
+
+  async reviewDocument(documentId: string, status: 'APPROVED' | 'REJECTED', note: string | undefined, actor: AuditActor) {
+    const document = await this.prisma.sellerDocument.findUnique({ where: { id: documentId } });
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+    if (status === KycDocumentStatus.REJECTED && !note) {
+      throw new BadRequestException('A note explaining the rejection is required');
+    }
+
+    const updated = await this.prisma.sellerDocument.update({
+      where: { id: documentId },
+      data: {
+        status,
+        reviewNote: note || null,
+        reviewerId: actor.id,
+        reviewedAt: new Date(),
+      },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'kyc.document.review',
+      entityType: 'SellerDocument',
+      entityId: documentId,
+      before: { status: document.status },
+      after: { status: updated.status, reviewNote: updated.reviewNote },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Throws unless the seller has a CNPJ on file and an approved document of
+   * every required type. Called before a seller is set to ACTIVE.
+   */
+  async assertReadyForApproval(user: User) {
+    if (!user.cnpj) {
+      throw new BadRequestException('Seller must provide a CNPJ before approval');
+    }
+
+    const approved = await this.prisma.sellerDocument.findMany({
+      where: { userId: user.id, status: KycDocumentStatus.APPROVED },
+      select: { type: true },
+    });
+    const approvedTypes = new Set(approved.map((d) => d.type));
+    const missing = this.requiredDocumentTypes(user.sellerType).filter((type) => !approvedTypes.has(type));
+
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Seller KYC documents not approved: ${missing.map((type) => DOCUMENT_LABELS[type]).join(', ')}`,
+      );
+    }
+  }
+}
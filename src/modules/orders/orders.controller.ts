@@ -7,6 +7,7 @@ import {
   Param,
   UseGuards,
   Request,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   IsString,
@@ -19,15 +20,31 @@ import {
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { OrdersService } from './orders.service';
+import { PrescriptionsService } from '../prescriptions/prescriptions.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
-import { RolesGuard } from '../../common/guards/roles.guard';
+import { SellerContextGuard } from '../../common/guards/seller-context.guard';
 import { Roles, UserRole } from '../../common/decorators/roles.decorator';
+import { SellerScope, SellerPermission, CurrentSeller, SellerContext } from '../../common/decorators/seller-scope.decorator';
+import { CurrentActor, AuditActor } from '../../common/decorators/current-actor.decorator';
 import { PaymentMethod, OrderStatus, ShippingType } from '@prisma/client';
 
 class CartItemDto {
   @IsString()
   productId: string;
 
+  @IsOptional()
+  @IsString()
+  variantId?: string;
+
+  @IsOptional()
+  @IsString()
+  prescriptionId?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  lensOptionIds?: string[];
+
   @IsNumber()
   @Min(1)
   quantity: number;
@@ -65,7 +82,10 @@ class UpdateOrderStatusDto {
 
 @Controller('orders')
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly prescriptionsService: PrescriptionsService,
+  ) {}
 
   @Get()
   @UseGuards(JwtAuthGuard)
@@ -74,10 +94,11 @@ export class OrdersController {
   }
 
   @Get('seller')
-  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
   @Roles(UserRole.SELLER, UserRole.ADMIN)
-  async findSellerOrders(@Request() req: any) {
-    return this.ordersService.findSellerOrders(req.user.sub);
+  @SellerScope(SellerPermission.ORDERS)
+  async findSellerOrders(@CurrentSeller() seller: SellerContext) {
+    return this.ordersService.findSellerOrders(seller.sellerId);
   }
 
   @Get(':id')
@@ -93,20 +114,39 @@ export class OrdersController {
   }
 
   @Patch(':id/status')
-  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
   @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @SellerScope(SellerPermission.ORDERS)
   async updateStatus(
     @Param('id') id: string,
     @Body() data: UpdateOrderStatusDto,
-    @Request() req: any,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
   ) {
-    return this.ordersService.updateOrderStatus(id, req.user.sub, data.status);
+    return this.ordersService.updateOrderStatus(id, seller.sellerId, data.status, actor);
   }
 
   @Post(':id/bling')
-  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
   @Roles(UserRole.SELLER, UserRole.ADMIN)
-  async createBlingOrder(@Param('id') id: string, @Request() req: any) {
-    return this.ordersService.createBlingOrder(id, req.user.sub);
+  @SellerScope(SellerPermission.ORDERS, SellerPermission.INTEGRATIONS)
+  async createBlingOrder(@Param('id') id: string, @CurrentSeller() seller: SellerContext) {
+    return this.ordersService.createBlingOrder(id, seller.sellerId);
+  }
+
+  @Get(':id/items/:itemId/prescription')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles(UserRole.SELLER, UserRole.ADMIN)
+  @SellerScope(SellerPermission.ORDERS)
+  async getPrescriptionFile(
+    @Param('id') id: string,
+    @Param('itemId') itemId: string,
+    @CurrentSeller() seller: SellerContext,
+  ) {
+    const { fileName, mimeType, stream } = await this.prescriptionsService.getOrderItemFile(seller.sellerId, id, itemId);
+    return new StreamableFile(stream, {
+      type: mimeType,
+      disposition: `inline; filename="${encodeURIComponent(fileName)}"`,
+    });
   }
 }
@@ -3,13 +3,22 @@ import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { OrdersController } from './orders.controller';
 import { OrdersService } from './orders.service';
+import { StockReservationsService } from './stock-reservations.service';
 import { PrismaModule } from '../../common/prisma/prisma.module';
 import { BlingModule } from '../bling/bling.module';
+import { AuditModule } from '../audit/audit.module';
+import { PrescriptionsModule } from '../prescriptions/prescriptions.module';
+import { ProductsModule } from '../products/products.module';
+import { CheckoutPreferencesModule } from '../payment/checkout-preferences.module';
 
 @Module({
   imports: [
     PrismaModule,
     BlingModule,
+    AuditModule,
+    PrescriptionsModule,
+    ProductsModule,
+    CheckoutPreferencesModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -20,7 +29,7 @@ import { BlingModule } from '../bling/bling.module';
     }),
   ],
   controllers: [OrdersController],
-  providers: [OrdersService],
-  exports: [OrdersService],
+  providers: [OrdersService, StockReservationsService],
+  exports: [OrdersService, StockReservationsService],
 })
 export class OrdersModule {}
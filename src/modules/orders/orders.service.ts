@@ -1,14 +1,24 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { PaymentMethod, PaymentStatus, OrderStatus, ShippingType } from '@prisma/client';
+import { Prisma, PaymentMethod, PaymentStatus, OrderStatus, ShippingType } from '@prisma/client';
 import { BlingService } from '../bling/bling.service';
+import { AuditService } from '../audit/audit.service';
+import { PrescriptionsService, PrescriptionSnapshot } from '../prescriptions/prescriptions.service';
+import { LensOptionsService, SelectedLensOption } from '../products/lens-options.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+import { StockReservationsService } from './stock-reservations.service';
+import { CheckoutPreferencesService } from '../payment/checkout-preferences.service';
 
 interface CartItem {
   productId: string;
+  variantId?: string;
+  prescriptionId?: string;
+  lensOptionIds?: string[];
   quantity: number;
 }
 
@@ -23,9 +33,16 @@ interface CreateOrderData {
 
 @Injectable()
 export class OrdersService {
+  private logger = new Logger('Orders');
+
   constructor(
     private prisma: PrismaService,
     private blingService: BlingService,
+    private auditService: AuditService,
+    private prescriptionsService: PrescriptionsService,
+    private lensOptionsService: LensOptionsService,
+    private stockReservations: StockReservationsService,
+    private checkoutPreferences: CheckoutPreferencesService,
   ) {}
 
   async findAll(userId: string) {
@@ -37,6 +54,7 @@ export class OrdersService {
             product: {
               select: { id: true, name: true, images: true, sku: true, seller: { select: { name: true } } },
             },
+            variant: { select: { id: true, sku: true, color: true, size: true, images: true } },
           },
         },
         address: true,
@@ -54,6 +72,7 @@ export class OrdersService {
             product: {
               select: { id: true, name: true, images: true, sku: true },
             },
+            variant: { select: { id: true, sku: true, color: true, size: true, images: true } },
           },
         },
         address: true,
@@ -69,34 +88,75 @@ export class OrdersService {
 
     if (!items || items.length === 0) throw new BadRequestException('Cart is empty');
 
-    const address = await this.prisma.address.findFirst({ where: { id: addressId, userId } });
+    const address = await this.prisma.address.findFirst({ where: { id: addressId, userId, deletedAt: null } });
     if (!address) throw new NotFoundException('Address not found');
 
-    const productIds = items.map((item) => item.productId);
+    const productIds = [...new Set(items.map((item) => item.productId))];
     const products = await this.prisma.product.findMany({
-      where: { id: { in: productIds } },
+      // Archived or deleted products can no longer be bought
+      where: { id: { in: productIds }, archivedAt: null, deletedAt: null },
+      include: { variants: true, lensOptionGroups: { include: { options: true } } },
     });
 
-    if (products.length !== items.length) throw new BadRequestException('One or more products not found');
+    if (products.length !== productIds.length) throw new BadRequestException('One or more products not found');
+
+    // Resolve each cart line to the unit that holds stock: the variant when the product has any
+    const lines = items.map((item) => {
+      const product = products.find((p) => p.id === item.productId)!;
+      if (product.variants.length === 0) {
+        if (item.variantId) throw new BadRequestException(`Product ${product.name} has no variants`);
+        return { item, product, variant: null };
+      }
+
+      const variant = product.variants.find((v) => v.id === item.variantId);
+      if (!variant) throw new BadRequestException(`Choose a color/size for product: ${product.name}`);
+      return { item, product, variant };
+    });
 
-    // Validate stock
-    for (const item of items) {
-      const product = products.find((p) => p.id === item.productId);
-      if (product && product.stock < item.quantity) {
-        throw new BadRequestException(`Insufficient stock for product: ${product.name}`);
+    // Prescription lenses and eyeglasses are made to order from the customer's receita
+    for (const { item, product } of lines) {
+      if (product.requiresPrescription && !item.prescriptionId) {
+        throw new BadRequestException(`A prescription is required for product: ${product.name}`);
+      }
+    }
+    const prescriptions = await this.prescriptionsService.snapshotsForOrder(
+      userId,
+      lines.filter(({ item, product }) => product.requiresPrescription && item.prescriptionId).map(({ item }) => item.prescriptionId!),
+    );
+
+    // Early, friendly check; the reservation below is what actually guards stock
+    for (const { item, product, variant } of lines) {
+      if ((variant || product).stock < item.quantity) {
+        const label = [product.name, variant?.color, variant?.size].filter(Boolean).join(' ');
+        throw new BadRequestException(`Insufficient stock for product: ${label}`);
       }
     }
 
     // Group items by seller
-    const sellerGroups = new Map<string, { productId: string; quantity: number; price: number }[]>();
-    for (const item of items) {
-      const product = products.find((p) => p.id === item.productId)!;
+    const sellerGroups = new Map<string, {
+      productId: string;
+      variantId: string | null;
+      label: string;
+      quantity: number;
+      price: number;
+      optionsPrice: number;
+      lensOptions: SelectedLensOption[];
+      prescription: PrescriptionSnapshot | null;
+    }[]>();
+    for (const { item, product, variant } of lines) {
       const sellerId = product.sellerId || 'platform';
+      // Lens add-ons are charged on top of the frame's unit price
+      const lens = this.lensOptionsService.select(product.name, product.lensOptionGroups, item.lensOptionIds);
       if (!sellerGroups.has(sellerId)) sellerGroups.set(sellerId, []);
       sellerGroups.get(sellerId)!.push({
         productId: item.productId,
+        variantId: variant?.id || null,
+        label: [product.name, variant?.color, variant?.size].filter(Boolean).join(' '),
         quantity: item.quantity,
-        price: Number(product.price),
+        price: Number(variant?.price ?? product.price) + lens.price,
+        optionsPrice: lens.price,
+        lensOptions: lens.options,
+        prescription: (product.requiresPrescription && prescriptions.get(item.prescriptionId!)) || null,
       });
     }
 
@@ -104,6 +164,7 @@ export class OrdersService {
     const sellerCount = sellerGroups.size;
     const shippingCost = data.shippingType === ShippingType.SELLER ? 0 : (data.shippingCost || 0);
     const shippingPerSeller = shippingCost / sellerCount;
+    const expiresAt = this.stockReservations.expiresAtFor(paymentMethod);
 
     // Create one order per seller in a transaction
     const orders = await this.prisma.$transaction(async (tx) => {
@@ -124,11 +185,17 @@ export class OrdersService {
             total,
             status: OrderStatus.PENDING,
             paymentStatus: PaymentStatus.PENDING,
+            expiresAt,
             items: {
               create: sellerItems.map((i) => ({
                 productId: i.productId,
+                variantId: i.variantId,
                 quantity: i.quantity,
                 price: i.price,
+                optionsPrice: i.optionsPrice,
+                lensOptions: i.lensOptions.length > 0 ? (i.lensOptions as unknown as Prisma.InputJsonArray) : Prisma.DbNull,
+                prescriptionId: i.prescription?.id ?? null,
+                prescriptionSnapshot: i.prescription ? (i.prescription as unknown as Prisma.InputJsonObject) : Prisma.DbNull,
               })),
             },
           },
@@ -142,13 +209,8 @@ export class OrdersService {
           },
         });
 
-        // Decrement stock
-        for (const item of sellerItems) {
-          await tx.product.update({
-            where: { id: item.productId },
-            data: { stock: { decrement: item.quantity } },
-          });
-        }
+        // Hold the units until the order is paid or expires; rolls everything back when one runs out
+        await this.stockReservations.reserve(tx, order.id, sellerItems, expiresAt);
 
         createdOrders.push(order);
       }
@@ -168,16 +230,34 @@ export class OrdersService {
 
     if (status === PaymentStatus.APPROVED) {
       updateData.status = OrderStatus.PAID;
+
+      // Consume first: from then on the expiry job cannot release these units.
+      // Anything it released before (whatever `order` said) is taken back.
+      await this.stockReservations.consume(orderId);
+      const { retaken, short } = await this.stockReservations.reacquire(orderId);
+      if (retaken > 0) {
+        this.logger.warn(`Order ${orderId} was paid after its stock was released; the stock was taken again`);
+      }
+      if (short > 0) {
+        updateData.oversold = true;
+        this.logger.warn(`Order ${orderId} was paid but ${short} line(s) are no longer in stock; flagged as oversold`);
+      }
+
+      // Webhooks can repeat, so only count the sale on the first approval
+      if (order.paymentStatus !== PaymentStatus.APPROVED) {
+        const orderItems = await this.prisma.orderItem.findMany({ where: { orderId } });
+        for (const item of orderItems) {
+          await this.prisma.product.update({
+            where: { id: item.productId },
+            data: { soldCount: { increment: item.quantity } },
+          });
+        }
+      }
     } else if (status === PaymentStatus.REJECTED || status === PaymentStatus.CANCELLED) {
       updateData.status = OrderStatus.CANCELLED;
 
-      const orderItems = await this.prisma.orderItem.findMany({ where: { orderId } });
-      for (const item of orderItems) {
-        await this.prisma.product.update({
-          where: { id: item.productId },
-          data: { stock: { increment: item.quantity } },
-        });
-      }
+      // Covers refunds and chargebacks of paid orders too
+      await this.stockReservations.release(orderId);
     }
 
     return this.prisma.order.update({
@@ -190,6 +270,33 @@ export class OrdersService {
     });
   }
 
+  // Unpaid orders past their reservation window; payments under review are left alone
+  async findExpired(limit = 100) {
+    return this.prisma.order.findMany({
+      where: { status: OrderStatus.PENDING, paymentStatus: PaymentStatus.PENDING, expiresAt: { lt: new Date() } },
+      select: { id: true, sellerId: true, preferenceId: true },
+      orderBy: { expiresAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Cancels an unpaid order whose reservation window has passed and returns its
+   * stock. Returns false when the order was paid or cancelled in the meantime.
+   */
+  async expire(orderId: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, status: OrderStatus.PENDING, paymentStatus: PaymentStatus.PENDING, expiresAt: { lt: new Date() } },
+        data: { status: OrderStatus.CANCELLED, paymentStatus: PaymentStatus.CANCELLED },
+      });
+      if (count === 0) return false;
+
+      await this.stockReservations.releaseHeld(orderId, tx);
+      return true;
+    });
+  }
+
   async findSellerOrders(sellerId: string) {
     return this.prisma.order.findMany({
       where: { sellerId },
@@ -197,6 +304,7 @@ export class OrdersService {
         items: {
           include: {
             product: { select: { id: true, name: true, images: true, sku: true } },
+            variant: true,
           },
         },
         address: true,
@@ -206,7 +314,7 @@ export class OrdersService {
     });
   }
 
-  async updateOrderStatus(orderId: string, sellerId: string, newStatus: OrderStatus) {
+  async updateOrderStatus(orderId: string, sellerId: string, newStatus: OrderStatus, actor: AuditActor) {
     const order = await this.prisma.order.findFirst({
       where: { id: orderId, sellerId },
     });
@@ -225,7 +333,12 @@ export class OrdersService {
       throw new BadRequestException(`Cannot transition from ${order.status} to ${newStatus}`);
     }
 
-    return this.prisma.order.update({
+    // Close the checkout first so a late payment cannot bring the order back
+    if (newStatus === OrderStatus.CANCELLED && order.status === OrderStatus.PENDING && order.preferenceId) {
+      await this.checkoutPreferences.expire(order.sellerId, order.preferenceId);
+    }
+
+    const updated = await this.prisma.order.update({
       where: { id: orderId },
       data: { status: newStatus },
       include: {
@@ -233,15 +346,29 @@ export class OrdersService {
         address: true,
       },
     });
+
+    if (newStatus === OrderStatus.CANCELLED) {
+      await this.stockReservations.release(orderId);
+    }
+
+    await this.auditService.record(actor, {
+      action: 'order.status.update',
+      entityType: 'Order',
+      entityId: orderId,
+      before: { status: order.status },
+      after: { status: updated.status },
+    });
+
+    return updated;
   }
 
   async createBlingOrder(orderId: string, sellerId: string) {
     const order = await this.prisma.order.findFirst({
       where: { id: orderId, sellerId },
       include: {
-        items: { include: { product: true } },
+        items: { include: { product: true, variant: true } },
         address: true,
-        user: { select: { name: true, email: true } },
+        user: { select: { name: true, email: true, cpf: true } },
       },
     });
 
@@ -260,9 +387,28 @@ export class OrdersService {
       throw new BadRequestException('Address is incomplete');
     }
 
+    const notes = order.items.flatMap((item) => {
+      const lines: string[] = [];
+      const lensOptions = item.lensOptions as unknown as SelectedLensOption[] | null;
+      if (lensOptions?.length) {
+        const leadTimeDays = Math.max(...lensOptions.map((option) => option.leadTimeDays));
+        lines.push(
+          `Lentes - ${item.product.name}: ${lensOptions.map((option) => `${option.group}: ${option.name}`).join('; ')}` +
+          (leadTimeDays > 0 ? ` (prazo de produção: ${leadTimeDays} dias)` : ''),
+        );
+      }
+      if (item.prescriptionSnapshot) {
+        lines.push(this.prescriptionsService.formatForNotes(
+          item.product.name,
+          item.prescriptionSnapshot as unknown as PrescriptionSnapshot,
+        ));
+      }
+      return lines;
+    });
+
     return this.blingService.createOrderInBling(sellerId, {
       orderNumber: order.id.slice(0, 8).toUpperCase(),
-      customer: { name: order.user.name, email: order.user.email },
+      customer: { name: order.user.name, email: order.user.email, cpf: order.user.cpf || undefined },
       address: {
         street: order.address.street,
         number: order.address.number,
@@ -273,14 +419,18 @@ export class OrdersService {
         zipCode: order.address.zipCode,
       },
       items: order.items.map((item) => ({
-        sku: item.product.sku,
-        name: item.product.name,
+        sku: item.variant?.sku || item.product.sku,
+        name: this.lensOptionsService.describe(
+          [item.product.name, item.variant?.color, item.variant?.size].filter(Boolean).join(' '),
+          item.lensOptions as unknown as SelectedLensOption[] | null,
+        ),
         quantity: item.quantity,
         price: Number(item.price),
-        blingId: item.product.blingId,
+        blingId: item.variant ? item.variant.blingId : item.product.blingId,
       })),
       total: Number(order.total),
       paymentMethod: order.paymentMethod || 'N/A',
+      notes,
     });
   }
 }
@@ -0,0 +1,168 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, PaymentMethod, StockReservationStatus } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+
+export interface ReservationLine {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  // Shown in the insufficient stock error
+  label: string;
+}
+
+/**
+ * Stock is taken off when an order is created and held by one reservation per
+ * line until the order is paid (CONSUMED) or expires/is cancelled (RELEASED).
+ * Each reservation changes state through a conditional update, so repeated
+ * webhooks move stock at most once. When the expiry job races a payment, the
+ * job only releases reservations that are still ACTIVE and every approval
+ * re-takes RELEASED ones while stock lasts, so a paid order ends up holding its
+ * units or is flagged as oversold.
+ */
+@Injectable()
+export class StockReservationsService {
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {}
+
+  // PIX codes are often paid later from another device, so they get a longer window
+  expiresAtFor(paymentMethod: PaymentMethod, from = new Date()) {
+    const minutes = paymentMethod === PaymentMethod.PIX
+      ? Number(this.config.get('ORDER_RESERVATION_PIX_MINUTES', 120))
+      : Number(this.config.get('ORDER_RESERVATION_MINUTES', 30));
+    return new Date(from.getTime() + minutes * 60 * 1000);
+  }
+
+  async reserve(tx: Prisma.TransactionClient, orderId: string, lines: ReservationLine[], expiresAt: Date) {
+    for (const line of lines) {
+      if (!(await this.take(tx, line))) {
+        throw new BadRequestException(`Insufficient stock for product: ${line.label}`);
+      }
+    }
+
+    await tx.stockReservation.createMany({
+      data: lines.map((line) => ({
+        orderId,
+        productId: line.productId,
+        variantId: line.variantId,
+        quantity: line.quantity,
+        expiresAt,
+      })),
+    });
+  }
+
+  // Paid: the units are sold and stay off stock
+  async consume(orderId: string) {
+    await this.prisma.stockReservation.updateMany({
+      where: { orderId, status: StockReservationStatus.ACTIVE },
+      data: { status: StockReservationStatus.CONSUMED },
+    });
+  }
+
+  // Cancellations and refunds: returns held or sold units to stock
+  async release(orderId: string, tx?: Prisma.TransactionClient) {
+    return this.releaseWhere(orderId, [StockReservationStatus.ACTIVE, StockReservationStatus.CONSUMED], tx);
+  }
+
+  // Expiry: units a payment has already claimed are left alone
+  async releaseHeld(orderId: string, tx?: Prisma.TransactionClient) {
+    return this.releaseWhere(orderId, [StockReservationStatus.ACTIVE], tx);
+  }
+
+  // Returns how many reservations were released
+  private async releaseWhere(orderId: string, statuses: StockReservationStatus[], tx?: Prisma.TransactionClient): Promise<number> {
+    if (!tx) {
+      return this.prisma.$transaction((tx) => this.releaseWhere(orderId, statuses, tx));
+    }
+
+    const reservations = await tx.stockReservation.findMany({
+      where: { orderId, status: { in: statuses } },
+    });
+
+    let released = 0;
+    for (const reservation of reservations) {
+      const { count } = await tx.stockReservation.updateMany({
+        where: { id: reservation.id, status: { in: statuses } },
+        data: { status: StockReservationStatus.RELEASED, releasedAt: new Date() },
+      });
+      if (count === 0) continue;
+
+      await tx.product.update({
+        where: { id: reservation.productId },
+        data: { stock: { increment: reservation.quantity } },
+      });
+      if (reservation.variantId) {
+        await tx.productVariant.update({
+          where: { id: reservation.variantId },
+          data: { stock: { increment: reservation.quantity } },
+        });
+      }
+      released++;
+    }
+    return released;
+  }
+
+  /**
+   * A payment approved after its stock was released (e.g. a PIX code paid late,
+   * or the expiry job running mid-webhook) takes the units again where they are
+   * still in stock. Lines sold to someone else in the meantime stay released
+   * and are counted as short; the caller flags the order.
+   */
+  async reacquire(orderId: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const reservations = await tx.stockReservation.findMany({
+        where: { orderId, status: StockReservationStatus.RELEASED },
+      });
+
+      let retaken = 0;
+      let short = 0;
+      for (const reservation of reservations) {
+        const { count } = await tx.stockReservation.updateMany({
+          where: { id: reservation.id, status: StockReservationStatus.RELEASED },
+          data: { status: StockReservationStatus.CONSUMED, releasedAt: null },
+        });
+        if (count === 0) continue;
+
+        if (await this.take(tx, reservation)) {
+          retaken++;
+          continue;
+        }
+        await tx.stockReservation.update({
+          where: { id: reservation.id },
+          data: { status: StockReservationStatus.RELEASED, releasedAt: reservation.releasedAt },
+        });
+        short++;
+      }
+      return { retaken, short };
+    });
+  }
+
+  /**
+   * Takes units off the product total and, for a variant line, off the variant.
+   * Each decrement only applies when enough is left, so concurrent checkouts
+   * cannot oversell; returns false (with nothing taken) when one runs short.
+   */
+  private async take(tx: Prisma.TransactionClient, line: { productId: string; variantId: string | null; quantity: number }) {
+    const { count } = await tx.product.updateMany({
+      where: { id: line.productId, stock: { gte: line.quantity } },
+      data: { stock: { decrement: line.quantity } },
+    });
+    if (count === 0) return false;
+    if (!line.variantId) return true;
+
+    const { count: variantCount } = await tx.productVariant.updateMany({
+      where: { id: line.variantId, stock: { gte: line.quantity } },
+      data: { stock: { decrement: line.quantity } },
+    });
+    if (variantCount === 0) {
+      await tx.product.update({
+        where: { id: line.productId },
+        data: { stock: { increment: line.quantity } },
+      });
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { CheckoutPreferencesService } from './checkout-preferences.service';
+import { PrismaModule } from '../../common/prisma/prisma.module';
+
+// Its own module so OrdersModule, which PaymentModule imports, can close checkouts too
+@Module({
+  imports: [PrismaModule],
+  providers: [CheckoutPreferencesService],
+  exports: [CheckoutPreferencesService],
+})
+export class CheckoutPreferencesModule {}
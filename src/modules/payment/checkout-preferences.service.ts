@@ -0,0 +1,46 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import axios from 'axios';
+
+@Injectable()
+export class CheckoutPreferencesService {
+  private logger = new Logger('CheckoutPreferences');
+  private platformToken: string;
+  private baseUrl = 'https://api.mercadopago.com';
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.platformToken = this.configService.get<string>('MERCADO_PAGO_ACCESS_TOKEN') || '';
+  }
+
+  /**
+   * Closes a checkout preference so its link and PIX code can no longer be paid.
+   * Best effort: the order is expired or cancelled locally either way.
+   */
+  async expire(sellerId: string | null, preferenceId: string) {
+    let accessToken = this.platformToken;
+    if (sellerId) {
+      const seller = await this.prisma.user.findUnique({
+        where: { id: sellerId },
+        select: { mercadoPagoAccessToken: true, mercadoPagoConnected: true },
+      });
+      if (seller?.mercadoPagoConnected && seller.mercadoPagoAccessToken) accessToken = seller.mercadoPagoAccessToken;
+    }
+
+    try {
+      await axios.put(`${this.baseUrl}/checkout/preferences/${preferenceId}`, {
+        expires: true,
+        expiration_date_to: new Date().toISOString(),
+      }, {
+        headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+      });
+      return true;
+    } catch (error: any) {
+      this.logger.error(`Failed to expire preference ${preferenceId}: ${JSON.stringify(error.response?.data) || error.message}`);
+      return false;
+    }
+  }
+}
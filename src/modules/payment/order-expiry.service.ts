@@ -0,0 +1,47 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { OrdersService } from '../orders/orders.service';
+import { CheckoutPreferencesService } from './checkout-preferences.service';
+
+/**
+ * Cancels orders left unpaid past their reservation window
+ * (ORDER_RESERVATION_MINUTES, ORDER_RESERVATION_PIX_MINUTES for PIX) so their
+ * stock goes back on sale.
+ */
+@Injectable()
+export class OrderExpiryService {
+  private logger = new Logger('OrderExpiry');
+  private running = false;
+
+  constructor(
+    private ordersService: OrdersService,
+    private checkoutPreferences: CheckoutPreferencesService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async expireUnpaidOrders() {
+    // A slow Mercado Pago must not stack runs on top of each other
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const orders = await this.ordersService.findExpired();
+
+      let expired = 0;
+      for (const order of orders) {
+        // Close the checkout first so it cannot be paid while the stock is released
+        if (order.preferenceId) {
+          await this.checkoutPreferences.expire(order.sellerId, order.preferenceId);
+        }
+        if (await this.ordersService.expire(order.id)) expired++;
+      }
+      if (expired > 0) {
+        this.logger.log(`Expired ${expired} unpaid order(s) and released their stock`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Order expiry failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -3,15 +3,20 @@ import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { PaymentController } from './payment.controller';
 import { PaymentService } from './payment.service';
+import { OrderExpiryService } from './order-expiry.service';
+import { CheckoutPreferencesModule } from './checkout-preferences.module';
 import { PrismaModule } from '../../common/prisma/prisma.module';
 import { OrdersModule } from '../orders/orders.module';
 import { SellerSettingsModule } from '../seller-settings/seller-settings.module';
+import { ProductsModule } from '../products/products.module';
 
 @Module({
   imports: [
     PrismaModule,
     OrdersModule,
     SellerSettingsModule,
+    ProductsModule,
+    CheckoutPreferencesModule,
     ConfigModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -23,7 +28,7 @@ import { SellerSettingsModule } from '../seller-settings/seller-settings.module'
     }),
   ],
   controllers: [PaymentController],
-  providers: [PaymentService],
+  providers: [PaymentService, OrderExpiryService],
   exports: [PaymentService],
 })
 export class PaymentModule {}
@@ -3,7 +3,8 @@ import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { OrdersService } from '../orders/orders.service';
 import { SellerSettingsService } from '../seller-settings/seller-settings.service';
-import { PaymentStatus } from '@prisma/client';
+import { LensOptionsService, SelectedLensOption } from '../products/lens-options.service';
+import { OrderStatus, PaymentStatus } from '@prisma/client';
 import axios from 'axios';
 
 interface CreateCheckoutData {
@@ -25,6 +26,7 @@ export class PaymentService {
     private configService: ConfigService,
     private ordersService: OrdersService,
     private sellerSettingsService: SellerSettingsService,
+    private lensOptionsService: LensOptionsService,
   ) {
     this.platformToken = this.configService.get<string>('MERCADO_PAGO_ACCESS_TOKEN') || '';
   }
@@ -76,11 +78,15 @@ export class PaymentService {
 
     const order = await this.prisma.order.findFirst({
       where: { id: orderId, userId },
-      include: { items: { include: { product: { include: { seller: true } } } } },
+      include: { items: { include: { product: { include: { seller: true } }, variant: true } } },
     });
 
     if (!order) throw new BadRequestException('Order not found');
     if (order.paymentStatus === PaymentStatus.APPROVED) throw new BadRequestException('Order already paid');
+    // The stock is no longer held for it; the customer has to order again
+    if (order.status === OrderStatus.CANCELLED || (order.expiresAt && order.expiresAt <= new Date())) {
+      throw new BadRequestException('Order has expired or was cancelled');
+    }
 
     // Get the seller for this order
     const sellerId = order.sellerId;
@@ -102,13 +108,23 @@ export class PaymentService {
 
     const frontendUrl = this.configService.get('FRONTEND_URL');
 
-    const items = order.items.map((item) => ({
-      id: item.productId,
-      title: item.product.name,
-      quantity: item.quantity,
-      unit_price: Number(item.price),
-      currency_id: 'BRL',
-    }));
+    const items = order.items.map((item) => {
+      const lensOptions = item.lensOptions as unknown as SelectedLensOption[] | null;
+      return {
+        id: item.variantId || item.productId,
+        title: this.lensOptionsService.describe(
+          [item.product.name, item.variant?.color, item.variant?.size].filter(Boolean).join(' '),
+          lensOptions,
+        ),
+        // Unit price already includes the add-ons; the breakdown shows on the checkout
+        ...(lensOptions && lensOptions.length > 0 && {
+          description: lensOptions.map((option) => `${option.name} (R$ ${option.price.toFixed(2)})`).join(', '),
+        }),
+        quantity: item.quantity,
+        unit_price: Number(item.price),
+        currency_id: 'BRL',
+      };
+    });
 
     // Add shipping as item if applicable
     const itemsTotal = order.items.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0);
@@ -133,6 +149,12 @@ export class PaymentService {
       external_reference: order.id,
       notification_url: `${this.configService.get('API_URL')}/api/payment/webhook`,
       statement_descriptor: 'OPTICAL MARKET',
+      // Mercado Pago stops accepting payments (including PIX codes) once the stock reservation ends
+      ...(order.expiresAt && {
+        expires: true,
+        expiration_date_to: order.expiresAt.toISOString(),
+        date_of_expiration: order.expiresAt.toISOString(),
+      }),
       payment_methods: {
         excluded_payment_types: [
           { id: 'debit_card' },
@@ -163,13 +185,11 @@ export class PaymentService {
         headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
       });
 
-      // Save application fee to order
-      if (applicationFee > 0) {
-        await this.prisma.order.update({
-          where: { id: orderId },
-          data: { applicationFee },
-        });
-      }
+      // Save application fee and preference to order
+      await this.prisma.order.update({
+        where: { id: orderId },
+        data: { preferenceId: response.data.id, ...(applicationFee > 0 && { applicationFee }) },
+      });
 
       return {
         preferenceId: response.data.id,
@@ -184,6 +204,10 @@ export class PaymentService {
           const retryResponse = await axios.post(`${this.baseUrl}/checkout/preferences`, preferenceData, {
             headers: { Authorization: `Bearer ${newToken}`, 'Content-Type': 'application/json' },
           });
+          await this.prisma.order.update({
+            where: { id: orderId },
+            data: { preferenceId: retryResponse.data.id, ...(applicationFee > 0 && { applicationFee }) },
+          });
           return {
             preferenceId: retryResponse.data.id,
             initPoint: retryResponse.data.init_point,
@@ -0,0 +1,138 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  UseInterceptors,
+  UploadedFile,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsDateString,
+  Min,
+  Max,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PrescriptionsService } from './prescriptions.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { UploadInterceptor } from '../../common/uploads/upload.interceptor';
+import { UPLOAD_RULES } from '../../common/uploads/upload-rules';
+
+class EyeDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(-30)
+  @Max(30)
+  sphere?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-10)
+  @Max(10)
+  cylinder?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(180)
+  axis?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(4)
+  addition?: number;
+
+  // Naso-pupillary distance (DNP) in millimetres
+  @IsOptional()
+  @IsNumber()
+  @Min(20)
+  @Max(40)
+  pd?: number;
+}
+
+export class PrescriptionDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(60)
+  label?: string;
+
+  @ValidateNested()
+  @Type(() => EyeDto)
+  right: EyeDto;
+
+  @ValidateNested()
+  @Type(() => EyeDto)
+  left: EyeDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  prescriberName?: string;
+
+  // CRM / CBOO registration of the ophthalmologist or optometrist
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  prescriberRegistry?: string;
+
+  @IsDateString()
+  issuedAt: string;
+}
+
+@Controller('prescriptions')
+@UseGuards(JwtAuthGuard)
+export class PrescriptionsController {
+  constructor(private prescriptionsService: PrescriptionsService) {}
+
+  @Get()
+  list(@Request() req: any) {
+    return this.prescriptionsService.list(req.user.sub);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string, @Request() req: any) {
+    return this.prescriptionsService.findOne(req.user.sub, id);
+  }
+
+  @Post()
+  create(@Request() req: any, @Body() dto: PrescriptionDto) {
+    return this.prescriptionsService.create(req.user.sub, dto);
+  }
+
+  @Put(':id')
+  update(@Param('id') id: string, @Request() req: any, @Body() dto: PrescriptionDto) {
+    return this.prescriptionsService.update(req.user.sub, id, dto);
+  }
+
+  @Delete(':id')
+  delete(@Param('id') id: string, @Request() req: any) {
+    return this.prescriptionsService.delete(req.user.sub, id);
+  }
+
+  @Post(':id/file')
+  @UseInterceptors(UploadInterceptor('file', UPLOAD_RULES.document))
+  uploadFile(@Param('id') id: string, @Request() req: any, @UploadedFile() file: Express.Multer.File) {
+    return this.prescriptionsService.uploadFile(req.user.sub, id, file);
+  }
+
+  @Get(':id/file')
+  async getFile(@Param('id') id: string, @Request() req: any) {
+    const { fileName, mimeType, stream } = await this.prescriptionsService.getFile(req.user.sub, id);
+    return new StreamableFile(stream, {
+      type: mimeType,
+      disposition: `inline; filename="${encodeURIComponent(fileName)}"`,
+    });
+  }
+}
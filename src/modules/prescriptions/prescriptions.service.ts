@@ -0,0 +1,308 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Prescription } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { StorageService } from '../../common/storage/storage.service';
+import { extensionFor } from '../../common/uploads/file-signatures';
+import { UploadException } from '../../common/uploads/upload-rules';
+
+export interface EyeData {
+  sphere?: number | null;
+  cylinder?: number | null;
+  axis?: number | null;
+  addition?: number | null;
+  pd?: number | null;
+}
+
+export interface PrescriptionData {
+  label?: string | null;
+  right?: EyeData;
+  left?: EyeData;
+  prescriberName?: string | null;
+  prescriberRegistry?: string | null;
+  issuedAt: string | Date;
+}
+
+export interface PrescriptionSnapshot {
+  id: string;
+  label: string | null;
+  right: Required<EyeData>;
+  left: Required<EyeData>;
+  prescriberName: string | null;
+  prescriberRegistry: string | null;
+  issuedAt: string;
+  fileKey: string | null;
+  fileName: string | null;
+  mimeType: string | null;
+}
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+@Injectable()
+export class PrescriptionsService {
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private storage: StorageService,
+  ) {}
+
+  async list(userId: string) {
+    const prescriptions = await this.prisma.prescription.findMany({
+      where: { userId },
+      orderBy: { issuedAt: 'desc' },
+    });
+    return prescriptions.map((prescription) => this.serialize(prescription));
+  }
+
+  async findOne(userId: string, id: string) {
+    return this.serialize(await this.findOwned(userId, id));
+  }
+
+  async create(userId: string, data: PrescriptionData) {
+    const prescription = await this.prisma.prescription.create({
+      data: { userId, ...this.toColumns(data) },
+    });
+    return this.serialize(prescription);
+  }
+
+  async update(userId: string, id: string, data: PrescriptionData) {
+    await this.findOwned(userId, id);
+    const prescription = await this.prisma.prescription.update({
+      where: { id },
+      data: this.toColumns(data),
+    });
+    return this.serialize(prescription);
+  }
+
+  async delete(userId: string, id: string) {
+    const prescription = await this.findOwned(userId, id);
+
+    // Orders keep a snapshot that points at the scan, so it stays in storage
+    const usedByOrders = await this.prisma.orderItem.count({ where: { prescriptionId: id } });
+    await this.prisma.prescription.delete({ where: { id } });
+    if (prescription.fileKey && usedByOrders === 0) {
+      await this.storage.delete(prescription.fileKey);
+    }
+
+    return { deleted: true };
+  }
+
+  async uploadFile(userId: string, id: string, file: Express.Multer.File) {
+    if (!file) {
+      throw new UploadException('FILE_REQUIRED', 'File is required', { field: 'file' });
+    }
+    const prescription = await this.findOwned(userId, id);
+
+    const fileKey = `prescriptions/${userId}/${randomUUID()}${extensionFor(file.mimetype)}`;
+    await this.storage.putFile(file, fileKey);
+
+    const updated = await this.prisma.prescription.update({
+      where: { id },
+      data: { fileKey, fileName: file.originalname, mimeType: file.mimetype },
+    });
+
+    const usedByOrders = await this.prisma.orderItem.count({ where: { prescriptionId: id } });
+    if (prescription.fileKey && usedByOrders === 0) {
+      await this.storage.delete(prescription.fileKey);
+    }
+
+    return this.serialize(updated);
+  }
+
+  async getFile(userId: string, id: string) {
+    const prescription = await this.findOwned(userId, id);
+    if (!prescription.fileKey) {
+      throw new NotFoundException('This prescription has no file');
+    }
+    return {
+      fileName: prescription.fileName || 'receita',
+      mimeType: prescription.mimeType || 'application/octet-stream',
+      stream: await this.storage.get(prescription.fileKey),
+    };
+  }
+
+  // Sellers read the scan through the order, using the snapshot taken at checkout
+  async getOrderItemFile(sellerId: string, orderId: string, orderItemId: string) {
+    const item = await this.prisma.orderItem.findFirst({
+      where: { id: orderItemId, orderId, order: { sellerId } },
+    });
+    const snapshot = item?.prescriptionSnapshot as PrescriptionSnapshot | null | undefined;
+    if (!snapshot?.fileKey) {
+      throw new NotFoundException('Prescription file not found');
+    }
+    return {
+      fileName: snapshot.fileName || 'receita',
+      mimeType: snapshot.mimeType || 'application/octet-stream',
+      stream: await this.storage.get(snapshot.fileKey),
+    };
+  }
+
+  /**
+   * Loads the customer's prescriptions for checkout, rejecting ones that do
+   * not belong to them or are older than PRESCRIPTION_VALIDITY_MONTHS.
+   */
+  async snapshotsForOrder(userId: string, ids: string[]): Promise<Map<string, PrescriptionSnapshot>> {
+    const unique = [...new Set(ids)];
+    if (unique.length === 0) return new Map();
+
+    const prescriptions = await this.prisma.prescription.findMany({
+      where: { id: { in: unique }, userId },
+    });
+    if (prescriptions.length !== unique.length) {
+      throw new BadRequestException('Prescription not found');
+    }
+
+    const validityMonths = parseInt(this.config.get('PRESCRIPTION_VALIDITY_MONTHS', '12'), 10);
+    const oldestValid = new Date();
+    oldestValid.setMonth(oldestValid.getMonth() - validityMonths);
+    const expired = prescriptions.find((prescription) => prescription.issuedAt < oldestValid);
+    if (expired) {
+      throw new BadRequestException(
+        `Prescription ${expired.label || expired.id} is older than ${validityMonths} months; please upload a recent one`,
+      );
+    }
+
+    return new Map(prescriptions.map((prescription) => [prescription.id, this.snapshot(prescription)]));
+  }
+
+  // One line per item for the seller's ERP, e.g. "OD esf -2.00 cil -0.50 eixo 180 | OE esf -1.75"
+  formatForNotes(productName: string, snapshot: PrescriptionSnapshot): string {
+    const eye = (name: string, data: Required<EyeData>) => {
+      const parts = [name];
+      if (data.sphere !== null) parts.push(`esf ${this.signed(data.sphere)}`);
+      if (data.cylinder !== null) parts.push(`cil ${this.signed(data.cylinder)}`);
+      if (data.axis !== null) parts.push(`eixo ${data.axis}`);
+      if (data.addition !== null) parts.push(`add ${this.signed(data.addition)}`);
+      if (data.pd !== null) parts.push(`DNP ${data.pd.toFixed(1)}`);
+      return parts.join(' ');
+    };
+
+    const prescriber = [snapshot.prescriberName, snapshot.prescriberRegistry && `(${snapshot.prescriberRegistry})`]
+      .filter(Boolean)
+      .join(' ');
+
+    return [
+      `Receita - ${productName}: ${eye('OD', snapshot.right)} | ${eye('OE', snapshot.left)}`,
+      prescriber && `Prescritor: ${prescriber}`,
+      `Emitida em ${snapshot.issuedAt.slice(0, 10)}`,
+    ]
+      .filter(Boolean)
+      .join(' | ');
+  }
+
+  /**
+   * Removes a customer's prescriptions, the copies kept on their orders and
+   * every scanned file, for account deletion. Health data is not needed for
+   * the fiscal retention of the orders themselves.
+   */
+  async deleteAllForUser(userId: string) {
+    const [prescriptions, orderItems] = await Promise.all([
+      this.prisma.prescription.findMany({ where: { userId }, select: { fileKey: true } }),
+      this.prisma.orderItem.findMany({
+        where: { order: { userId }, prescriptionSnapshot: { not: Prisma.DbNull } },
+        select: { prescriptionSnapshot: true },
+      }),
+    ]);
+
+    await this.prisma.$transaction([
+      this.prisma.orderItem.updateMany({
+        where: { order: { userId } },
+        data: { prescriptionId: null, prescriptionSnapshot: Prisma.DbNull },
+      }),
+      this.prisma.prescription.deleteMany({ where: { userId } }),
+    ]);
+
+    const fileKeys = new Set([
+      ...prescriptions.map((prescription) => prescription.fileKey),
+      ...orderItems.map((item) => (item.prescriptionSnapshot as unknown as PrescriptionSnapshot).fileKey),
+    ]);
+    for (const key of fileKeys) {
+      if (key) await this.storage.delete(key);
+    }
+  }
+
+  private async findOwned(userId: string, id: string) {
+    const prescription = await this.prisma.prescription.findFirst({ where: { id, userId } });
+    if (!prescription) {
+      throw new NotFoundException('Prescription not found');
+    }
+    return prescription;
+  }
+
+  private toColumns(data: PrescriptionData) {
+    const right = data.right || {};
+    const left = data.left || {};
+
+    for (const [name, eye] of [['right', right], ['left', left]] as const) {
+      for (const field of ['sphere', 'cylinder', 'addition'] as const) {
+        const value = eye[field];
+        if (value !== null && value !== undefined && Math.round(value * 100) % 25 !== 0) {
+          throw new BadRequestException(`${name}.${field} must be in 0.25 steps`);
+        }
+      }
+      if (eye.cylinder && (eye.axis === null || eye.axis === undefined)) {
+        throw new BadRequestException(`${name}.axis is required when there is a cylinder`);
+      }
+    }
+
+    const issuedAt = new Date(data.issuedAt);
+    if (issuedAt > new Date()) {
+      throw new BadRequestException('issuedAt cannot be in the future');
+    }
+
+    return {
+      label: data.label ?? null,
+      rightSphere: right.sphere ?? null,
+      rightCylinder: right.cylinder ?? null,
+      rightAxis: right.axis ?? null,
+      rightAddition: right.addition ?? null,
+      rightPd: right.pd ?? null,
+      leftSphere: left.sphere ?? null,
+      leftCylinder: left.cylinder ?? null,
+      leftAxis: left.axis ?? null,
+      leftAddition: left.addition ?? null,
+      leftPd: left.pd ?? null,
+      prescriberName: data.prescriberName ?? null,
+      prescriberRegistry: data.prescriberRegistry ?? null,
+      issuedAt,
+    };
+  }
+
+  private snapshot(prescription: Prescription): PrescriptionSnapshot {
+    const { fileKey, fileName, mimeType } = prescription;
+    return { ...this.serialize(prescription), fileKey, fileName, mimeType };
+  }
+
+  private serialize(prescription: Prescription) {
+    return {
+      id: prescription.id,
+      label: prescription.label,
+      right: {
+        sphere: toNumber(prescription.rightSphere),
+        cylinder: toNumber(prescription.rightCylinder),
+        axis: prescription.rightAxis,
+        addition: toNumber(prescription.rightAddition),
+        pd: toNumber(prescription.rightPd),
+      },
+      left: {
+        sphere: toNumber(prescription.leftSphere),
+        cylinder: toNumber(prescription.leftCylinder),
+        axis: prescription.leftAxis,
+        addition: toNumber(prescription.leftAddition),
+        pd: toNumber(prescription.leftPd),
+      },
+      prescriberName: prescription.prescriberName,
+      prescriberRegistry: prescription.prescriberRegistry,
+      issuedAt: prescription.issuedAt.toISOString(),
+      hasFile: !!prescription.fileKey,
+      fileName: prescription.fileName,
+      createdAt: prescription.createdAt,
+      updatedAt: prescription.updatedAt,
+    };
+  }
+
+  private signed(value: number) {
+    return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+  }
+}
@@ -0,0 +1,51 @@
+import { Controller, Get, Post, Delete, Body, Query, UseGuards, Request, StreamableFile } from '@nestjs/common';
+import { IsOptional, IsString, IsIn, MaxLength } from 'class-validator';
+import { PrivacyService } from './privacy.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+export class ExportQueryDto {
+  @IsOptional()
+  @IsIn(['json', 'zip'])
+  format?: 'json' | 'zip';
+}
+
+export class CreateDeletionRequestDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  reason?: string;
+}
+
+// LGPD data-subject requests for the logged-in user
+@Controller('auth/me')
+@UseGuards(JwtAuthGuard)
+export class PrivacyController {
+  constructor(private privacyService: PrivacyService) {}
+
+  @Get('export')
+  async export(@Request() req: any, @Query() query: ExportQueryDto) {
+    if (query.format === 'zip') {
+      const zip = await this.privacyService.exportZip(req.user.sub);
+      return new StreamableFile(zip, {
+        type: 'application/zip',
+        disposition: `attachment; filename="my-data-${new Date().toISOString().split('T')[0]}.zip"`,
+      });
+    }
+    return this.privacyService.exportData(req.user.sub);
+  }
+
+  @Get('deletion-request')
+  getDeletionRequest(@Request() req: any) {
+    return this.privacyService.getDeletionRequest(req.user.sub);
+  }
+
+  @Post('deletion-request')
+  requestDeletion(@Request() req: any, @Body() dto: CreateDeletionRequestDto) {
+    return this.privacyService.requestDeletion(req.user.sub, dto.reason);
+  }
+
+  @Delete('deletion-request')
+  cancelDeletionRequest(@Request() req: any) {
+    return this.privacyService.cancelDeletionRequest(req.user.sub);
+  }
+}
@@ -0,0 +1,316 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import * as JSZip from 'jszip';
+import { randomBytes } from 'crypto';
+import { DeletionRequestStatus, UserRole } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { AuditService } from '../audit/audit.service';
+import { PrescriptionsService } from '../prescriptions/prescriptions.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+
+const REMOVED = '[removed]';
+
+@Injectable()
+export class PrivacyService {
+  constructor(
+    private prisma: PrismaService,
+    private authService: AuthService,
+    private auditService: AuditService,
+    private prescriptionsService: PrescriptionsService,
+  ) {}
+
+  // ============ DATA EXPORT ============
+
+  async exportData(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        status: true,
+        sellerType: true,
+        cnpj: true,
+        cpf: true,
+        legalCompanyName: true,
+        mercadoPagoConnected: true,
+        mercadoPagoAccountId: true,
+        emailVerifiedAt: true,
+        twoFactorEnabled: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const [addresses, prescriptions, orders, sessions, loginAttempts, deletionRequests] = await Promise.all([
+      this.prisma.address.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      this.prescriptionsService.list(userId),
+      this.prisma.order.findMany({
+        where: { userId },
+        include: {
+          items: { include: { product: { select: { id: true, name: true, sku: true } } } },
+          address: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.session.findMany({
+        where: { userId },
+        select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastUsedAt: true, revokedAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.loginAttempt.findMany({
+        where: { userId },
+        select: { outcome: true, ipAddress: true, userAgent: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.dataDeletionRequest.findMany({
+        where: { userId },
+        select: { id: true, status: true, reason: true, createdAt: true, reviewedAt: true, completedAt: true },
+      }),
+    ]);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile: user,
+      addresses,
+      prescriptions,
+      orders,
+      payments: orders.map((order) => ({
+        orderId: order.id,
+        paymentId: order.paymentId,
+        paymentMethod: order.paymentMethod,
+        paymentStatus: order.paymentStatus,
+        total: order.total,
+        createdAt: order.createdAt,
+      })),
+      security: { sessions, loginAttempts },
+      deletionRequests,
+    };
+  }
+
+  async exportZip(userId: string): Promise<Buffer> {
+    const data = await this.exportData(userId);
+
+    const zip = new JSZip();
+    zip.file('profile.json', JSON.stringify(data.profile, null, 2));
+    zip.file('addresses.json', JSON.stringify(data.addresses, null, 2));
+    zip.file('prescriptions.json', JSON.stringify(data.prescriptions, null, 2));
+    zip.file('orders.json', JSON.stringify(data.orders, null, 2));
+    zip.file('payments.json', JSON.stringify(data.payments, null, 2));
+    zip.file('security.json', JSON.stringify(data.security, null, 2));
+    zip.file('deletion-requests.json', JSON.stringify(data.deletionRequests, null, 2));
+    zip.file('README.txt', `Personal data export generated at ${data.exportedAt} under the LGPD (Lei 13.709/2018).\n`);
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  // ============ DELETION REQUESTS ============
+
+  async getDeletionRequest(userId: string) {
+    return this.prisma.dataDeletionRequest.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async requestDeletion(userId: string, reason?: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Seller and admin accounts carry catalog, payout and fiscal obligations
+    if (user.role !== UserRole.CUSTOMER) {
+      throw new BadRequestException('Seller and admin accounts must be closed through support');
+    }
+
+    const pending = await this.prisma.dataDeletionRequest.findFirst({
+      where: { userId, status: DeletionRequestStatus.PENDING },
+    });
+    if (pending) {
+      throw new ConflictException('A deletion request is already pending review');
+    }
+
+    return this.prisma.dataDeletionRequest.create({
+      data: { userId, reason: reason || null },
+    });
+  }
+
+  async cancelDeletionRequest(userId: string) {
+    const pending = await this.prisma.dataDeletionRequest.findFirst({
+      where: { userId, status: DeletionRequestStatus.PENDING },
+    });
+    if (!pending) {
+      throw new NotFoundException('No pending deletion request');
+    }
+
+    return this.prisma.dataDeletionRequest.update({
+      where: { id: pending.id },
+      data: { status: DeletionRequestStatus.CANCELLED },
+    });
+  }
+
+  async listDeletionRequests(params: { page?: number; limit?: number; status?: DeletionRequestStatus }) {
+    const { page = 1, limit = 10, status } = params;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+    if (status) where.status = status;
+
+    const [requests, total] = await Promise.all([
+      this.prisma.dataDeletionRequest.findMany({
+        where,
+        skip,
+        take: limit,
+        // Oldest first: LGPD gives a limited window to answer each request
+        orderBy: { createdAt: 'asc' },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              name: true,
+              role: true,
+              status: true,
+              createdAt: true,
+              _count: { select: { orders: true, addresses: true } },
+            },
+          },
+        },
+      }),
+      this.prisma.dataDeletionRequest.count({ where }),
+    ]);
+
+    return {
+      requests,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async reviewDeletionRequest(id: string, decision: 'APPROVE' | 'REJECT', note: string | undefined, actor: AuditActor) {
+    const request = await this.prisma.dataDeletionRequest.findUnique({ where: { id } });
+    if (!request) {
+      throw new NotFoundException('Deletion request not found');
+    }
+    if (request.status !== DeletionRequestStatus.PENDING) {
+      throw new BadRequestException(`Deletion request is already ${request.status.toLowerCase()}`);
+    }
+
+    if (decision === 'REJECT') {
+      if (!note) {
+        throw new BadRequestException('A note explaining the rejection is required');
+      }
+
+      const rejected = await this.prisma.dataDeletionRequest.update({
+        where: { id },
+        data: {
+          status: DeletionRequestStatus.REJECTED,
+          reviewerId: actor.id,
+          reviewNote: note,
+          reviewedAt: new Date(),
+        },
+      });
+
+      await this.auditService.record(actor, {
+        action: 'privacy.deletion.reject',
+        entityType: 'User',
+        entityId: request.userId,
+        after: { requestId: id, note },
+      });
+
+      return rejected;
+    }
+
+    await this.anonymizeUser(request.userId);
+
+    const completed = await this.prisma.dataDeletionRequest.update({
+      where: { id },
+      data: {
+        status: DeletionRequestStatus.COMPLETED,
+        reviewerId: actor.id,
+        reviewNote: note || null,
+        reviewedAt: new Date(),
+        completedAt: new Date(),
+      },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'privacy.deletion.complete',
+      entityType: 'User',
+      entityId: request.userId,
+      after: { requestId: id },
+    });
+
+    return completed;
+  }
+
+  /**
+   * Strips personal data from the user, their addresses and the audit entries
+   * about them. Orders and order items are kept because they must be retained
+   * for fiscal purposes; they keep pointing at the anonymised rows.
+   * Prescriptions, health data, are deleted.
+   */
+  private async anonymizeUser(userId: string) {
+    const addresses = await this.prisma.address.findMany({ where: { userId } });
+    await this.prescriptionsService.deleteAllForUser(userId);
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          email: `deleted-${userId}@anonymized.invalid`,
+          name: 'Deleted user',
+          password: await bcrypt.hash(randomBytes(32).toString('hex'), 10),
+          cnpj: null,
+          cpf: null,
+          legalCompanyName: null,
+          mercadoPagoConnected: false,
+          mercadoPagoAccountId: null,
+          mercadoPagoAccessToken: null,
+          mercadoPagoRefreshToken: null,
+          emailVerifiedAt: null,
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorRecoveryCodes: [],
+          failedLoginAttempts: 0,
+          lastFailedLoginAt: null,
+          lockedUntil: null,
+          status: 'SUSPENDED',
+          anonymizedAt: new Date(),
+        },
+      }),
+      // City and state stay for tax reporting; everything that locates the person goes
+      ...addresses.map((address) =>
+        this.prisma.address.update({
+          where: { id: address.id },
+          data: {
+            street: REMOVED,
+            number: REMOVED,
+            complement: null,
+            neighborhood: REMOVED,
+            zipCode: `${address.zipCode.replace(/\D/g, '').slice(0, 5)}000`,
+            isDefault: false,
+          },
+        }),
+      ),
+      this.prisma.userToken.deleteMany({ where: { userId } }),
+      this.prisma.loginAttempt.deleteMany({ where: { userId } }),
+      this.prisma.session.updateMany({ where: { userId }, data: { userAgent: null, ipAddress: null } }),
+      this.prisma.blingToken.deleteMany({ where: { userId } }),
+      this.prisma.sellerTeamMember.deleteMany({ where: { userId } }),
+    ]);
+
+    await this.auditService.redactUser(userId);
+    await this.authService.revokeAllSessions(userId);
+  }
+}
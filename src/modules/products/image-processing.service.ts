@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as sharp from 'sharp';
+import { UploadException } from '../../common/uploads/upload-rules';
+
+// Longest edge in pixels; smaller originals are never upscaled
+export const IMAGE_SIZES = {
+  thumbnail: 200,
+  card: 600,
+  zoom: 1600,
+} as const;
+
+export type ImageSizeName = keyof typeof IMAGE_SIZES;
+
+export interface RenderedImage {
+  size: ImageSizeName;
+  format: 'jpeg' | 'webp';
+  contentType: string;
+  extension: string;
+  width: number;
+  body: Buffer;
+}
+
+export interface ProcessedImage {
+  width: number;
+  height: number;
+  renditions: RenderedImage[];
+}
+
+@Injectable()
+export class ImageProcessingService {
+  constructor(private config: ConfigService) {}
+
+  /**
+   * Renders every size as JPEG and WebP. Orientation from EXIF is applied
+   * before the metadata (camera, GPS) is dropped, which sharp does by default.
+   */
+  async process(input: Buffer | string): Promise<ProcessedImage> {
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(input).metadata();
+    } catch {
+      throw new UploadException('UNREADABLE_IMAGE', 'The file is not a readable image');
+    }
+
+    // Orientations 5-8 swap width and height
+    const rotated = (metadata.orientation || 1) >= 5;
+    const width = (rotated ? metadata.height : metadata.width) || 0;
+    const height = (rotated ? metadata.width : metadata.height) || 0;
+
+    const minSize = parseInt(this.config.get('PRODUCT_IMAGE_MIN_SIZE', '500'), 10);
+    if (Math.min(width, height) < minSize) {
+      throw new UploadException(
+        'IMAGE_TOO_SMALL',
+        `Image is ${width}x${height}px; product images must be at least ${minSize}px on each side`,
+        { width, height, minDimension: minSize },
+      );
+    }
+
+    const renditions: RenderedImage[] = [];
+    for (const [size, edge] of Object.entries(IMAGE_SIZES) as [ImageSizeName, number][]) {
+      const resized = sharp(input)
+        .rotate()
+        .resize(edge, edge, { fit: 'inside', withoutEnlargement: true });
+
+      // Transparent PNGs get a white background rather than JPEG's default black
+      const jpeg = await resized.clone().flatten({ background: '#ffffff' }).jpeg({ quality: 82, mozjpeg: true }).toBuffer({ resolveWithObject: true });
+      const webp = await resized.clone().webp({ quality: 80 }).toBuffer({ resolveWithObject: true });
+
+      renditions.push(
+        { size, format: 'jpeg', contentType: 'image/jpeg', extension: 'jpg', width: jpeg.info.width, body: jpeg.data },
+        { size, format: 'webp', contentType: 'image/webp', extension: 'webp', width: webp.info.width, body: webp.data },
+      );
+    }
+
+    return { width, height, renditions };
+  }
+}
@@ -0,0 +1,231 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { LensOption, LensOptionGroup, LensOptionKind, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+
+export interface LensOptionInput {
+  id?: string;
+  name: string;
+  description?: string | null;
+  price: number;
+  leadTimeDays?: number;
+  active?: boolean;
+  position?: number;
+}
+
+export interface LensOptionGroupInput {
+  kind: LensOptionKind;
+  name: string;
+  required?: boolean;
+  multiple?: boolean;
+  position?: number;
+  options: LensOptionInput[];
+}
+
+export interface SelectedLensOption {
+  groupId: string;
+  group: string;
+  kind: LensOptionKind;
+  optionId: string;
+  name: string;
+  price: number;
+  leadTimeDays: number;
+}
+
+export type LensOptionGroupWithOptions = LensOptionGroup & { options: LensOption[] };
+
+const OPTIONS_ORDER: Prisma.LensOptionOrderByWithRelationInput[] = [{ position: 'asc' }, { createdAt: 'asc' }];
+
+@Injectable()
+export class LensOptionsService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  async list(productId: string) {
+    await this.findProduct(productId);
+    return this.prisma.lensOptionGroup.findMany({
+      where: { productId },
+      include: { options: { orderBy: OPTIONS_ORDER } },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async createGroup(productId: string, sellerId: string, data: LensOptionGroupInput, actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+    const { options, ...groupData } = data;
+
+    const group = await this.prisma.lensOptionGroup.create({
+      data: {
+        ...groupData,
+        productId,
+        options: { create: options.map(({ id: _id, ...option }) => option) },
+      },
+      include: { options: { orderBy: OPTIONS_ORDER } },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'product.lens-options.create',
+      entityType: 'LensOptionGroup',
+      entityId: group.id,
+      after: this.auditFields(group),
+    });
+
+    return group;
+  }
+
+  /**
+   * Options sent with an id are updated, new ones are created and the ones
+   * left out are removed. Past orders keep their own copy of the choices.
+   */
+  async updateGroup(productId: string, groupId: string, sellerId: string, data: Partial<LensOptionGroupInput>, actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+    const existing = await this.findGroup(productId, groupId);
+    const { options, ...groupData } = data;
+
+    if (options) {
+      const unknown = options.find((option) => option.id && !existing.options.some((o) => o.id === option.id));
+      if (unknown) {
+        throw new BadRequestException(`Option ${unknown.id} does not belong to this group`);
+      }
+    }
+
+    const keptIds = options?.filter((option) => option.id).map((option) => option.id!) || [];
+    const group = await this.prisma.$transaction(async (tx) => {
+      if (options) {
+        await tx.lensOption.deleteMany({ where: { groupId, id: { notIn: keptIds } } });
+        for (const { id, ...option } of options) {
+          if (id) {
+            await tx.lensOption.update({ where: { id }, data: option });
+          } else {
+            await tx.lensOption.create({ data: { ...option, groupId } });
+          }
+        }
+      }
+
+      return tx.lensOptionGroup.update({
+        where: { id: groupId },
+        data: groupData,
+        include: { options: { orderBy: OPTIONS_ORDER } },
+      });
+    });
+
+    await this.auditService.record(actor, {
+      action: 'product.lens-options.update',
+      entityType: 'LensOptionGroup',
+      entityId: groupId,
+      before: this.auditFields(existing),
+      after: this.auditFields(group),
+    });
+
+    return group;
+  }
+
+  async deleteGroup(productId: string, groupId: string, sellerId: string, actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+    const group = await this.findGroup(productId, groupId);
+
+    await this.prisma.lensOptionGroup.delete({ where: { id: groupId } });
+
+    await this.auditService.record(actor, {
+      action: 'product.lens-options.delete',
+      entityType: 'LensOptionGroup',
+      entityId: groupId,
+      before: this.auditFields(group),
+    });
+
+    return { message: 'Lens option group deleted' };
+  }
+
+  /**
+   * Checks a cart line's choices against the product's configurator and
+   * returns them with the amount they add to the unit price.
+   */
+  select(productName: string, groups: LensOptionGroupWithOptions[], optionIds: string[] = []) {
+    const ids = [...new Set(optionIds)];
+    const selected: SelectedLensOption[] = [];
+
+    for (const id of ids) {
+      const group = groups.find((g) => g.options.some((option) => option.id === id));
+      const option = group?.options.find((o) => o.id === id);
+      if (!group || !option || !option.active) {
+        throw new BadRequestException(`Lens option ${id} is not available for product: ${productName}`);
+      }
+      selected.push({
+        groupId: group.id,
+        group: group.name,
+        kind: group.kind,
+        optionId: option.id,
+        name: option.name,
+        price: Number(option.price),
+        leadTimeDays: option.leadTimeDays,
+      });
+    }
+
+    for (const group of groups) {
+      const count = selected.filter((option) => option.groupId === group.id).length;
+      if (group.required && count === 0) {
+        throw new BadRequestException(`Choose an option for "${group.name}" on product: ${productName}`);
+      }
+      if (!group.multiple && count > 1) {
+        throw new BadRequestException(`Only one option can be chosen for "${group.name}" on product: ${productName}`);
+      }
+    }
+
+    return {
+      options: selected,
+      price: selected.reduce((sum, option) => sum + option.price, 0),
+      leadTimeDays: Math.max(0, ...selected.map((option) => option.leadTimeDays)),
+    };
+  }
+
+  // "Armação X + Multifocal, Antirreflexo" for payment and ERP item titles
+  describe(title: string, options: SelectedLensOption[] | null | undefined) {
+    if (!options || options.length === 0) return title;
+    return `${title} + ${options.map((option) => option.name).join(', ')}`;
+  }
+
+  private async findProduct(productId: string) {
+    const product = await this.prisma.product.findFirst({ where: { id: productId, deletedAt: null } });
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+    return product;
+  }
+
+  private async findOwnedProduct(productId: string, sellerId: string, actor: AuditActor) {
+    const product = await this.findProduct(productId);
+    if (actor.role !== UserRole.ADMIN && product.sellerId !== sellerId) {
+      throw new ForbiddenException('You can only manage lens options of your own products');
+    }
+    return product;
+  }
+
+  private async findGroup(productId: string, groupId: string) {
+    const group = await this.prisma.lensOptionGroup.findFirst({
+      where: { id: groupId, productId },
+      include: { options: { orderBy: OPTIONS_ORDER } },
+    });
+    if (!group) {
+      throw new NotFoundException('Lens option group not found');
+    }
+    return group;
+  }
+
+  private auditFields(group: LensOptionGroupWithOptions) {
+    return {
+      kind: group.kind,
+      name: group.name,
+      required: group.required,
+      multiple: group.multiple,
+      options: group.options.map((option) => ({
+        name: option.name,
+        price: Number(option.price),
+        leadTimeDays: option.leadTimeDays,
+        active: option.active,
+      })),
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { BlingService } from '../bling/bling.service';
+import { AttributesService } from '../attributes/attributes.service';
+
+@Injectable()
+export class ProductBlingSyncService {
+  constructor(
+    private prisma: PrismaService,
+    private blingService: BlingService,
+    private attributesService: AttributesService,
+  ) {}
+
+  /**
+   * Mirrors a linked product (gallery, variations and custom fields) to the
+   * seller's Bling. Bling is a mirror here; a failed push is logged and does
+   * not undo the local change.
+   */
+  async push(productId: string) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      include: { variants: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] }, category: true },
+    });
+    if (!product?.blingId || !product.sellerId || !(await this.blingService.isConfigured(product.sellerId))) {
+      return;
+    }
+
+    const result = await this.blingService.updateProductInBling(product.sellerId, product.blingId, {
+      sku: product.sku,
+      name: product.name,
+      description: product.description || undefined,
+      price: Number(product.price),
+      stock: product.stock,
+      images: product.images,
+      blingCategoryId: product.category.blingId || undefined,
+      variations: product.variants.map((variant) => ({
+        sku: variant.sku,
+        price: Number(variant.price ?? product.price),
+        color: variant.color,
+        size: variant.size,
+        blingId: variant.blingId,
+      })),
+      customFields: await this.attributesService.blingFieldsForProduct(productId),
+    });
+    if (!result.success) {
+      console.error(`Failed to sync product ${productId} to Bling:`, result.error);
+    }
+  }
+}
@@ -0,0 +1,343 @@
+import { Injectable, Logger, NotFoundException, ForbiddenException, BadRequestException, OnModuleInit } from '@nestjs/common';
+import { Prisma, ProductImage, UserRole } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { StorageService } from '../../common/storage/storage.service';
+import { UPLOAD_RULES, UploadException } from '../../common/uploads/upload-rules';
+import { validateUploadedFile } from '../../common/uploads/upload.interceptor';
+import { AuditService } from '../audit/audit.service';
+import { ProductBlingSyncService } from './product-bling-sync.service';
+import { ImageProcessingService, ImageSizeName, ProcessedImage } from './image-processing.service';
+import { ProductModerationService } from './product-moderation.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+
+const MAX_IMAGES_PER_PRODUCT = 10;
+
+export type ImageSizes = Record<ImageSizeName, { jpeg: string; webp: string; width: number }>;
+
+export interface StoredImage {
+  url: string;
+  key: string;
+  variantKeys: string[];
+  sizes: ImageSizes;
+  width: number;
+  height: number;
+}
+
+@Injectable()
+export class ProductImagesService implements OnModuleInit {
+  private logger = new Logger('ProductImages');
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private productBlingSync: ProductBlingSyncService,
+    private imageProcessing: ImageProcessingService,
+    private storage: StorageService,
+    private moderationService: ProductModerationService,
+  ) {}
+
+  async onModuleInit() {
+    await this.adoptLegacyImages();
+  }
+
+  /**
+   * One-off backfill: products created before the gallery existed only have
+   * `images` URLs. Each product is locked and re-checked so instances booting
+   * together do not insert the same rows twice.
+   */
+  private async adoptLegacyImages() {
+    const products = await this.prisma.product.findMany({
+      where: { images: { isEmpty: false }, gallery: { none: {} } },
+      select: { id: true },
+    });
+
+    let adopted = 0;
+    for (const { id } of products) {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM "Product" WHERE id = ${id} FOR UPDATE`;
+        const product = await tx.product.findUnique({
+          where: { id },
+          select: { images: true, _count: { select: { gallery: true } } },
+        });
+        if (!product || product._count.gallery > 0 || product.images.length === 0) return;
+
+        await tx.productImage.createMany({
+          data: product.images.map((url, position) => ({
+            productId: id,
+            url,
+            key: this.storage.keyFromPublicUrl(url),
+            position,
+          })),
+        });
+        adopted++;
+      });
+    }
+    if (adopted > 0) {
+      this.logger.log(`Moved the images of ${adopted} product(s) into the gallery`);
+    }
+  }
+
+  async list(productId: string) {
+    await this.findProduct(productId);
+    return this.prisma.productImage.findMany({
+      where: { productId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  async upload(productId: string, sellerId: string, files: Express.Multer.File[], altTexts: (string | null)[], actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+    if (!files || files.length === 0) {
+      throw new UploadException('FILE_REQUIRED', 'At least one image is required', { field: 'images' });
+    }
+
+    const count = await this.prisma.productImage.count({ where: { productId } });
+    if (count + files.length > MAX_IMAGES_PER_PRODUCT) {
+      throw new UploadException('TOO_MANY_FILES', `A product can have at most ${MAX_IMAGES_PER_PRODUCT} images`, {
+        field: 'images',
+        maxCount: MAX_IMAGES_PER_PRODUCT,
+        existing: count,
+      });
+    }
+
+    const created: ProductImage[] = [];
+    for (const [index, file] of files.entries()) {
+      const stored = await this.store(file);
+      created.push(await this.prisma.productImage.create({
+        data: { productId, ...stored, altText: altTexts[index] || null, position: count + index },
+      }));
+    }
+    await this.syncProduct(productId);
+    await this.moderationService.returnToPending(productId, ['images']);
+
+    await this.auditService.record(actor, {
+      action: 'product.images.upload',
+      entityType: 'Product',
+      entityId: productId,
+      after: { images: created.map((image) => image.url) },
+    });
+
+    return this.list(productId);
+  }
+
+  /**
+   * Attaches images the browser uploaded straight to storage (see
+   * StorageService.createDirectUpload). They get the same content checks and
+   * processing as multipart uploads; the raw uploads are removed either way.
+   */
+  async attachDirectUploads(productId: string, sellerId: string, keys: string[], altTexts: (string | null)[], actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+
+    const files: Express.Multer.File[] = [];
+    try {
+      for (const key of keys) {
+        const file = await this.storage.directUploadToTempFile(key, sellerId);
+        files.push(file);
+        await validateUploadedFile(file, 'keys', UPLOAD_RULES.productImage);
+      }
+      return await this.upload(productId, sellerId, files, altTexts, actor);
+    } finally {
+      await Promise.all(files.map((file) => this.storage.removeTempFile(file)));
+      await Promise.all(keys.map((key) => this.storage.delete(key)));
+    }
+  }
+
+  async reorder(productId: string, sellerId: string, imageIds: string[], actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+    const images = await this.list(productId);
+
+    const sameSet = imageIds.length === images.length && new Set(imageIds).size === images.length &&
+      images.every((image) => imageIds.includes(image.id));
+    if (!sameSet) {
+      throw new BadRequestException('imageIds must list every image of the product exactly once');
+    }
+
+    await this.prisma.$transaction(
+      imageIds.map((id, position) => this.prisma.productImage.update({ where: { id }, data: { position } })),
+    );
+    await this.syncProduct(productId);
+    // A new cover changes what shoppers see first
+    if (imageIds.some((id, position) => id !== images[position].id)) {
+      await this.moderationService.returnToPending(productId, ['images']);
+    }
+
+    await this.auditService.record(actor, {
+      action: 'product.images.reorder',
+      entityType: 'Product',
+      entityId: productId,
+      before: { images: images.map((image) => image.id) },
+      after: { images: imageIds },
+    });
+
+    return this.list(productId);
+  }
+
+  async setCover(productId: string, imageId: string, sellerId: string, actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+    const images = await this.list(productId);
+    if (!images.some((image) => image.id === imageId)) {
+      throw new NotFoundException('Image not found');
+    }
+
+    const ids = [imageId, ...images.map((image) => image.id).filter((id) => id !== imageId)];
+    return this.reorder(productId, sellerId, ids, actor);
+  }
+
+  async updateAltText(productId: string, imageId: string, sellerId: string, altText: string | null, actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+    const existing = await this.findImage(productId, imageId);
+
+    const image = await this.prisma.productImage.update({
+      where: { id: imageId },
+      data: { altText },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'product.images.update',
+      entityType: 'ProductImage',
+      entityId: imageId,
+      before: { altText: existing.altText },
+      after: { altText: image.altText },
+    });
+
+    return image;
+  }
+
+  async delete(productId: string, imageId: string, sellerId: string, actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+    const image = await this.findImage(productId, imageId);
+
+    await this.prisma.productImage.delete({ where: { id: imageId } });
+    await this.deleteFiles(image);
+    await this.syncProduct(productId);
+    await this.moderationService.returnToPending(productId, ['images']);
+
+    await this.auditService.record(actor, {
+      action: 'product.images.delete',
+      entityType: 'ProductImage',
+      entityId: imageId,
+      before: { url: image.url, altText: image.altText },
+    });
+
+    return { message: 'Image deleted' };
+  }
+
+  /**
+   * Rebuilds the gallery from a list of URLs, for callers that still send
+   * `images` on product update. Known URLs keep their alt text; stored files of
+   * images left out are removed.
+   */
+  async replaceUrls(productId: string, urls: string[]) {
+    const images = await this.prisma.productImage.findMany({ where: { productId } });
+    const removed = images.filter((image) => !urls.includes(image.url));
+
+    await this.prisma.$transaction([
+      this.prisma.productImage.deleteMany({ where: { id: { in: removed.map((image) => image.id) } } }),
+      ...urls.map((url, position) => {
+        const existing = images.find((image) => image.url === url);
+        return existing
+          ? this.prisma.productImage.update({ where: { id: existing.id }, data: { position } })
+          : this.prisma.productImage.create({ data: { productId, url, position } });
+      }),
+    ]);
+
+    for (const image of removed) {
+      await this.deleteFiles(image);
+    }
+    await this.syncProduct(productId);
+  }
+
+  /**
+   * Resizes an upload into every catalogue size (JPEG and WebP, without EXIF)
+   * and stores them. The zoom-size JPEG is the image's main URL.
+   */
+  async store(file: Express.Multer.File): Promise<StoredImage> {
+    let processed: ProcessedImage;
+    try {
+      processed = await this.imageProcessing.process(file.path);
+    } finally {
+      await this.storage.removeTempFile(file);
+    }
+
+    const base = `image/${Date.now()}-${Math.round(Math.random() * 1E9)}`;
+    const sizes = {} as ImageSizes;
+    const keys: string[] = [];
+    for (const rendition of processed.renditions) {
+      const key = `${base}/${rendition.size}.${rendition.extension}`;
+      await this.storage.put(key, rendition.body, {
+        contentType: rendition.contentType,
+        cacheControl: 'public, max-age=31536000, immutable',
+      });
+      keys.push(key);
+      sizes[rendition.size] = {
+        ...sizes[rendition.size],
+        [rendition.format]: this.storage.publicUrl(key),
+        width: rendition.width,
+      };
+    }
+
+    const key = `${base}/zoom.jpg`;
+    return {
+      url: this.storage.publicUrl(key),
+      key,
+      variantKeys: keys.filter((k) => k !== key),
+      sizes,
+      width: processed.width,
+      height: processed.height,
+    };
+  }
+
+  private async deleteFiles(image: { key: string | null; variantKeys: string[] }) {
+    for (const key of [image.key, ...image.variantKeys]) {
+      if (key) await this.storage.delete(key);
+    }
+  }
+
+  // Product.images mirrors the gallery order so listings can keep reading images[0] as the cover
+  private async syncProduct(productId: string) {
+    const images = await this.prisma.productImage.findMany({
+      where: { productId },
+      orderBy: { position: 'asc' },
+    });
+
+    await this.prisma.$transaction([
+      ...images
+        .map((image, position) => ({ image, position }))
+        .filter(({ image, position }) => image.position !== position)
+        .map(({ image, position }) => this.prisma.productImage.update({ where: { id: image.id }, data: { position } })),
+      this.prisma.product.update({
+        where: { id: productId },
+        data: {
+          images: images.map((image) => image.url),
+          imageSizes: images.map((image) => image.sizes ?? null) as Prisma.InputJsonArray,
+        },
+      }),
+    ]);
+
+    await this.productBlingSync.push(productId);
+  }
+
+  private async findProduct(productId: string) {
+    const product = await this.prisma.product.findFirst({ where: { id: productId, deletedAt: null } });
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+    return product;
+  }
+
+  private async findOwnedProduct(productId: string, sellerId: string, actor: AuditActor) {
+    const product = await this.findProduct(productId);
+    if (actor.role !== UserRole.ADMIN && product.sellerId !== sellerId) {
+      throw new ForbiddenException('You can only manage images of your own products');
+    }
+    return product;
+  }
+
+  private async findImage(productId: string, imageId: string) {
+    const image = await this.prisma.productImage.findFirst({ where: { id: imageId, productId } });
+    if (!image) {
+      throw new NotFoundException('Image not found');
+    }
+    return image;
+  }
+}
@@ -0,0 +1,490 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { Prisma, ProductImport, ProductImportStatus } from '@prisma/client';
+import * as ExcelJS from 'exceljs';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { StorageService } from '../../common/storage/storage.service';
+import { XLSX_MIME_TYPE } from '../../common/uploads/file-signatures';
+import { UploadException } from '../../common/uploads/upload-rules';
+import { AuditService } from '../audit/audit.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+import { ProductsService } from './products.service';
+import { ProductImagesService } from './product-images.service';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+// Shared by import and export, so an exported file can be edited and uploaded again.
+// `images` holds URLs separated by "|" or line breaks; `status` is export-only.
+export const PRODUCT_COLUMNS = ['sku', 'name', 'description', 'price', 'stock', 'category', 'images', 'status'] as const;
+const REQUIRED_COLUMNS = ['sku', 'name', 'price', 'category'];
+
+const MAX_IMAGES_PER_ROW = 10;
+// Counters are written back while a job runs so clients can show progress
+const PROGRESS_EVERY_ROWS = 25;
+// A job still PROCESSING after this long was cut off by a restart
+const STALE_JOB_MS = 60 * 60 * 1000;
+
+export interface ImportRowError {
+  row: number;
+  sku: string | null;
+  field: string | null;
+  message: string;
+}
+
+interface ImportRow {
+  row: number;
+  sku: string;
+  name: string;
+  description?: string;
+  price: number;
+  stock?: number;
+  categoryId: string;
+  images?: string[];
+  // Set when the SKU already belongs to one of the seller's products
+  existingId?: string;
+}
+
+const CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: XLSX_MIME_TYPE,
+};
+
+@Injectable()
+export class ProductImportService {
+  private logger = new Logger('ProductImport');
+  private processing = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private storage: StorageService,
+    private auditService: AuditService,
+    private productsService: ProductsService,
+    private productImagesService: ProductImagesService,
+  ) {}
+
+  // ============ JOBS ============
+
+  async createImport(sellerId: string, file: Express.Multer.File, upsert: boolean, actor: AuditActor) {
+    if (!file) {
+      throw new UploadException('FILE_REQUIRED', 'File is required', { field: 'file' });
+    }
+
+    const format: SpreadsheetFormat = file.mimetype === XLSX_MIME_TYPE ? 'xlsx' : 'csv';
+    const fileKey = `imports/${sellerId}/${randomUUID()}.${format}`;
+    await this.storage.putFile(file, fileKey);
+
+    const job = await this.prisma.productImport.create({
+      data: {
+        sellerId,
+        createdById: actor.id,
+        createdByRole: actor.role,
+        fileKey,
+        fileName: file.originalname,
+        format,
+        upsert,
+      },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'product.import',
+      entityType: 'ProductImport',
+      entityId: job.id,
+      after: { fileName: job.fileName, upsert },
+    });
+
+    return job;
+  }
+
+  async listImports(sellerId: string) {
+    return this.prisma.productImport.findMany({
+      where: { sellerId },
+      // Row errors can be long; they are read per job
+      select: {
+        id: true,
+        fileName: true,
+        format: true,
+        upsert: true,
+        status: true,
+        totalRows: true,
+        createdCount: true,
+        updatedCount: true,
+        failedCount: true,
+        failureReason: true,
+        startedAt: true,
+        finishedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  async findImport(sellerId: string, id: string) {
+    const job = await this.prisma.productImport.findFirst({ where: { id, sellerId } });
+    if (!job) {
+      throw new NotFoundException('Import not found');
+    }
+    return job;
+  }
+
+  // CSV of the rejected rows, with the original row numbers
+  async errorReport(sellerId: string, id: string) {
+    const job = await this.findImport(sellerId, id);
+    const errors = job.errors as unknown as ImportRowError[];
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Errors');
+    sheet.columns = [
+      { header: 'row', key: 'row' },
+      { header: 'sku', key: 'sku' },
+      { header: 'field', key: 'field' },
+      { header: 'message', key: 'message' },
+    ];
+    sheet.addRows(errors);
+
+    return {
+      body: Buffer.from(await workbook.csv.writeBuffer()),
+      contentType: CONTENT_TYPES.csv,
+      fileName: `import-${job.id}-errors.csv`,
+    };
+  }
+
+  /**
+   * Runs queued imports one at a time. Jobs are claimed with a conditional
+   * update, so a second instance polling the same table skips them.
+   */
+  @Interval(5000)
+  async processPending() {
+    if (this.processing) return;
+    this.processing = true;
+    try {
+      await this.prisma.productImport.updateMany({
+        where: { status: ProductImportStatus.PROCESSING, startedAt: { lt: new Date(Date.now() - STALE_JOB_MS) } },
+        data: { status: ProductImportStatus.FAILED, failureReason: 'The import was interrupted; upload the file again', finishedAt: new Date() },
+      });
+
+      let job: ProductImport | null;
+      while ((job = await this.claimNext())) {
+        await this.run(job);
+      }
+    } catch (error) {
+      this.logger.error(`Import polling failed: ${error.message}`);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async claimNext(): Promise<ProductImport | null> {
+    const next = await this.prisma.productImport.findFirst({
+      where: { status: ProductImportStatus.PENDING },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!next) return null;
+
+    const { count } = await this.prisma.productImport.updateMany({
+      where: { id: next.id, status: ProductImportStatus.PENDING },
+      data: { status: ProductImportStatus.PROCESSING, startedAt: new Date() },
+    });
+    return count === 1 ? next : this.claimNext();
+  }
+
+  private async run(job: ProductImport) {
+    const actor: AuditActor = { id: job.createdById, role: job.createdByRole ?? undefined };
+    const errors: ImportRowError[] = [];
+    let createdCount = 0;
+    let updatedCount = 0;
+
+    try {
+      const records = await this.readFile(job);
+      const maxRows = parseInt(this.config.get('PRODUCT_IMPORT_MAX_ROWS', '2000'), 10);
+      if (records.length > maxRows) {
+        throw new Error(`The file has ${records.length} rows; imports are limited to ${maxRows}`);
+      }
+
+      const rows = await this.validate(job, records, errors);
+      await this.prisma.productImport.update({
+        where: { id: job.id },
+        data: { totalRows: records.length, failedCount: errors.length },
+      });
+
+      for (const [index, row] of rows.entries()) {
+        try {
+          if (row.existingId) {
+            await this.productsService.update(row.existingId, job.sellerId, {
+              name: row.name,
+              price: row.price,
+              categoryId: row.categoryId,
+              ...(row.description !== undefined && { description: row.description }),
+              ...(row.stock !== undefined && { stock: row.stock }),
+              ...(row.images && { images: row.images }),
+            }, actor);
+            updatedCount++;
+          } else {
+            const product = await this.productsService.create({
+              sku: row.sku,
+              name: row.name,
+              description: row.description,
+              price: row.price,
+              stock: row.stock ?? 0,
+              categoryId: row.categoryId,
+              sellerId: job.sellerId,
+            }, actor);
+            if (row.images) {
+              await this.productImagesService.replaceUrls(product.id, row.images);
+            }
+            createdCount++;
+          }
+        } catch (error) {
+          errors.push({ row: row.row, sku: row.sku, field: null, message: error.message });
+        }
+
+        if ((index + 1) % PROGRESS_EVERY_ROWS === 0) {
+          await this.prisma.productImport.update({
+            where: { id: job.id },
+            data: { createdCount, updatedCount, failedCount: errors.length },
+          });
+        }
+      }
+
+      await this.finish(job, ProductImportStatus.COMPLETED, { createdCount, updatedCount, errors });
+    } catch (error) {
+      this.logger.error(`Import ${job.id} failed: ${error.message}`);
+      await this.finish(job, ProductImportStatus.FAILED, { createdCount, updatedCount, errors, failureReason: error.message });
+    }
+  }
+
+  private async finish(
+    job: ProductImport,
+    status: ProductImportStatus,
+    result: { createdCount: number; updatedCount: number; errors: ImportRowError[]; failureReason?: string },
+  ) {
+    result.errors.sort((a, b) => a.row - b.row);
+    await this.prisma.productImport.update({
+      where: { id: job.id },
+      data: {
+        status,
+        createdCount: result.createdCount,
+        updatedCount: result.updatedCount,
+        failedCount: result.errors.length,
+        errors: result.errors as unknown as Prisma.InputJsonArray,
+        failureReason: result.failureReason,
+        fileKey: null,
+        finishedAt: new Date(),
+      },
+    });
+    if (job.fileKey) {
+      await this.storage.delete(job.fileKey);
+    }
+  }
+
+  // ============ PARSING ============
+
+  private async readFile(job: ProductImport): Promise<Record<string, string>[]> {
+    if (!job.fileKey) {
+      throw new Error('The uploaded file is no longer available');
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.storage.get(job.fileKey)) {
+      chunks.push(chunk);
+    }
+    const buffer = Buffer.concat(chunks);
+
+    const workbook = new ExcelJS.Workbook();
+    let sheet: ExcelJS.Worksheet | undefined;
+    try {
+      if (job.format === 'xlsx') {
+        await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+        sheet = workbook.worksheets[0];
+      } else {
+        // Spreadsheet apps in pt-BR save CSV with ";" and a UTF-8 BOM
+        const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+        const firstLine = text.split(/\r?\n/, 1)[0];
+        const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+        // map keeps every value a string, so SKUs like 00123 are not turned into numbers
+        sheet = await workbook.csv.read(Readable.from([text]), { parserOptions: { delimiter }, map: (value: string) => value });
+      }
+    } catch {
+      throw new Error(`The file could not be read as ${job.format.toUpperCase()}`);
+    }
+    if (!sheet || sheet.rowCount < 2) {
+      throw new Error('The file has no product rows');
+    }
+
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell((cell, column) => {
+      headers[column] = cellText(cell).toLowerCase();
+    });
+    const missing = REQUIRED_COLUMNS.filter((column) => !headers.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`Missing column(s): ${missing.join(', ')}. Expected: ${PRODUCT_COLUMNS.join(', ')}`);
+    }
+
+    const records: Record<string, string>[] = [];
+    for (let rowNumber = 2; rowNumber <= sheet.rowCount; rowNumber++) {
+      const record: Record<string, string> = { _row: String(rowNumber) };
+      let blank = true;
+      sheet.getRow(rowNumber).eachCell((cell, column) => {
+        const header = headers[column];
+        const value = cellText(cell);
+        if (header && value) {
+          record[header] = value;
+          blank = false;
+        }
+      });
+      if (!blank) records.push(record);
+    }
+    return records;
+  }
+
+  /**
+   * Checks every row before anything is written, collecting all problems rather
+   * than stopping at the first. Blank optional cells leave the current value of
+   * an updated product untouched.
+   */
+  private async validate(job: ProductImport, records: Record<string, string>[], errors: ImportRowError[]): Promise<ImportRow[]> {
+    const categories = await this.prisma.category.findMany({
+      where: { userId: job.sellerId, deletedAt: null },
+      select: { id: true, slug: true },
+    });
+    const categoryBySlug = new Map(categories.map((category) => [category.slug.toLowerCase(), category.id]));
+
+    const skus = records.map((record) => record.sku).filter(Boolean);
+    const [products, variants] = await Promise.all([
+      this.prisma.product.findMany({
+        where: { sku: { in: skus } },
+        select: { id: true, sku: true, sellerId: true, deletedAt: true, _count: { select: { variants: true } } },
+      }),
+      this.prisma.productVariant.findMany({ where: { sku: { in: skus } }, select: { sku: true } }),
+    ]);
+    const productBySku = new Map(products.map((product) => [product.sku, product]));
+    const variantSkus = new Set(variants.map((variant) => variant.sku));
+    const firstRowBySku = new Map<string, number>();
+
+    const rows: ImportRow[] = [];
+    for (const record of records) {
+      const row = parseInt(record._row, 10);
+      const sku = record.sku || null;
+      const rowErrors: ImportRowError[] = [];
+      const fail = (field: string, message: string) => rowErrors.push({ row, sku, field, message });
+
+      if (!sku) {
+        fail('sku', 'SKU is required');
+      } else if (sku.length > 60) {
+        fail('sku', 'SKU must be at most 60 characters');
+      } else if (firstRowBySku.has(sku)) {
+        fail('sku', `Duplicate SKU; first used on row ${firstRowBySku.get(sku)}`);
+      } else {
+        firstRowBySku.set(sku, row);
+      }
+
+      if (!record.name) fail('name', 'Name is required');
+
+      const price = parseDecimal(record.price);
+      if (price === null || price < 0) fail('price', 'Price must be a number of at least 0');
+
+      let stock: number | undefined;
+      if (record.stock) {
+        stock = Number(record.stock);
+        if (!Number.isInteger(stock) || stock < 0) fail('stock', 'Stock must be a whole number of at least 0');
+      }
+
+      const categoryId = record.category ? categoryBySlug.get(record.category.toLowerCase()) : undefined;
+      if (!record.category) {
+        fail('category', 'Category slug is required');
+      } else if (!categoryId) {
+        fail('category', `Unknown category "${record.category}"`);
+      }
+
+      let images: string[] | undefined;
+      if (record.images) {
+        images = record.images.split(/[|\r\n]+/).map((url) => url.trim()).filter(Boolean);
+        if (images.length > MAX_IMAGES_PER_ROW) fail('images', `At most ${MAX_IMAGES_PER_ROW} images per product`);
+        const invalid = images.find((url) => !isHttpUrl(url));
+        if (invalid) fail('images', `Invalid image URL "${invalid}"`);
+      }
+
+      const existing = sku ? productBySku.get(sku) : undefined;
+      if (sku && variantSkus.has(sku)) {
+        fail('sku', 'SKU is already used by a product variant');
+      } else if (existing && (existing.sellerId !== job.sellerId || existing.deletedAt)) {
+        fail('sku', 'SKU is already in use');
+      } else if (existing && !job.upsert) {
+        fail('sku', 'A product with this SKU already exists; enable upsert to update it');
+      } else if (existing && stock !== undefined && existing._count.variants > 0) {
+        fail('stock', 'Stock of a product with variants is managed per variant');
+      }
+
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors);
+        continue;
+      }
+      rows.push({
+        row,
+        sku: sku!,
+        name: record.name,
+        description: record.description,
+        price: price!,
+        stock,
+        categoryId: categoryId!,
+        images,
+        existingId: existing?.id,
+      });
+    }
+    return rows;
+  }
+
+  // ============ EXPORT ============
+
+  async exportProducts(sellerId: string, format: SpreadsheetFormat) {
+    const products = await this.productsService.findBySellerId(sellerId);
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Products');
+    sheet.columns = PRODUCT_COLUMNS.map((column) => ({ header: column, key: column, width: column === 'description' ? 60 : 20 }));
+    for (const product of products) {
+      sheet.addRow({
+        sku: product.sku,
+        name: product.name,
+        description: product.description || '',
+        price: Number(product.price),
+        stock: product.stock,
+        category: product.category.slug,
+        images: product.images.join(' | '),
+        status: product.status,
+      });
+    }
+
+    const body = format === 'xlsx' ? await workbook.xlsx.writeBuffer() : await workbook.csv.writeBuffer();
+    return {
+      body: Buffer.from(body),
+      contentType: CONTENT_TYPES[format],
+      fileName: `products-${new Date().toISOString().slice(0, 10)}.${format}`,
+    };
+  }
+}
+
+function cellText(cell: ExcelJS.Cell): string {
+  // Numbers keep full precision instead of the cell's display format
+  if (typeof cell.value === 'number') return String(cell.value);
+  return (cell.text || '').trim();
+}
+
+// Accepts "1234.5" as well as the pt-BR "1.234,50"
+function parseDecimal(value: string | undefined): number | null {
+  if (!value) return null;
+  const normalized = value.includes(',') ? value.replace(/\./g, '').replace(',', '.') : value;
+  const number = Number(normalized.replace(/^R\$\s*/, ''));
+  return Number.isFinite(number) ? Math.round(number * 100) / 100 : null;
+}
+
+function isHttpUrl(value: string) {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ProductModerationService } from './product-moderation.service';
+import { PrismaModule } from '../../common/prisma/prisma.module';
+
+// Its own module so BlingModule, which ProductsModule imports, can use it too
+@Module({
+  imports: [PrismaModule],
+  providers: [ProductModerationService],
+  exports: [ProductModerationService],
+})
+export class ProductModerationModule {}
@@ -0,0 +1,95 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Prisma, ProductStatus, UserRole } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+
+// What a reviewer checks before approving; a checklist maps each item to pass/fail
+export const PRODUCT_CHECKLIST = ['images', 'title', 'description', 'price', 'category', 'regulatory'] as const;
+export type ProductChecklistItem = (typeof PRODUCT_CHECKLIST)[number];
+export type ProductChecklist = Partial<Record<ProductChecklistItem, boolean>>;
+
+// Changes to these fields send an approved product back to the moderation queue
+export const MODERATED_FIELDS = ['name', 'description', 'images'] as const;
+export type ModeratedField = (typeof MODERATED_FIELDS)[number];
+
+@Injectable()
+export class ProductModerationService {
+  constructor(private prisma: PrismaService) {}
+
+  async record(
+    productId: string,
+    entry: { fromStatus: ProductStatus; status: ProductStatus; reviewerId?: string; reason?: string | null; checklist?: ProductChecklist },
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    return tx.productModeration.create({
+      data: {
+        productId,
+        fromStatus: entry.fromStatus,
+        status: entry.status,
+        reviewerId: entry.reviewerId,
+        reason: entry.reason,
+        checklist: entry.checklist,
+      },
+    });
+  }
+
+  // Only known items with boolean values; returns the items that failed
+  validateChecklist(checklist: Record<string, unknown>): ProductChecklistItem[] {
+    const unknown = Object.keys(checklist).filter((item) => !PRODUCT_CHECKLIST.includes(item as ProductChecklistItem));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown checklist item(s): ${unknown.join(', ')}. Expected: ${PRODUCT_CHECKLIST.join(', ')}`);
+    }
+    const invalid = Object.entries(checklist).filter(([, value]) => typeof value !== 'boolean');
+    if (invalid.length > 0) {
+      throw new BadRequestException(`Checklist values must be true or false (${invalid.map(([item]) => item).join(', ')})`);
+    }
+    return PRODUCT_CHECKLIST.filter((item) => checklist[item] === false);
+  }
+
+  async history(productId: string) {
+    return this.prisma.productModeration.findMany({
+      where: { productId },
+      include: { reviewer: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Seller-facing: reviewers' reasons for their own product
+  async historyForSeller(productId: string, sellerId: string, actor: AuditActor) {
+    const product = await this.prisma.product.findUnique({ where: { id: productId }, select: { sellerId: true } });
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+    if (actor.role !== UserRole.ADMIN && product.sellerId !== sellerId) {
+      throw new ForbiddenException('You can only view your own products');
+    }
+
+    // Reviewer identities stay internal
+    const entries = await this.history(productId);
+    return entries.map(({ reviewer, reviewerId, ...entry }) => entry);
+  }
+
+  /**
+   * Moves an approved product back to PENDING after its content changed. The
+   * conditional update makes concurrent edits record a single entry. Pass the
+   * transaction that writes the change so both land together.
+   */
+  async returnToPending(productId: string, changed: ModeratedField[], tx?: Prisma.TransactionClient): Promise<void> {
+    if (changed.length === 0) return;
+    if (!tx) {
+      return this.prisma.$transaction((tx) => this.returnToPending(productId, changed, tx));
+    }
+
+    const { count } = await tx.product.updateMany({
+      where: { id: productId, status: ProductStatus.APPROVED },
+      data: { status: ProductStatus.PENDING, isSubmittedForApproval: true, submittedAt: new Date() },
+    });
+    if (count === 0) return;
+
+    await this.record(productId, {
+      fromStatus: ProductStatus.APPROVED,
+      status: ProductStatus.PENDING,
+      reason: `Changed after approval: ${changed.join(', ')}`,
+    }, tx);
+  }
+}
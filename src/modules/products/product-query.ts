@@ -0,0 +1,72 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+// Shared by the public catalogue and the admin product list
+
+export const PRODUCT_SORTS = ['newest', 'price_asc', 'price_desc', 'best_selling', 'name', 'relevance'] as const;
+export type ProductSort = typeof PRODUCT_SORTS[number];
+
+const ORDER_BY: Record<Exclude<ProductSort, 'relevance'>, Prisma.ProductOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: 'desc' }],
+  price_asc: [{ price: 'asc' }],
+  price_desc: [{ price: 'desc' }],
+  best_selling: [{ soldCount: 'desc' }],
+  name: [{ name: 'asc' }],
+};
+
+interface CursorPayload {
+  sort: ProductSort;
+  id?: string;
+  offset?: number;
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sort: ProductSort): CursorPayload {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+  if (!payload || typeof payload !== 'object' || payload.sort !== sort) {
+    throw new BadRequestException('Cursor does not match the requested sort');
+  }
+  return payload;
+}
+
+/**
+ * Fetches one page ordered by a database column. A cursor continues after the
+ * last row of the previous page, so concurrent inserts do not shift results;
+ * without one the classic page/limit offset is used.
+ */
+export async function findProductPage<T extends { id: string }>(
+  find: (args: {
+    orderBy: Prisma.ProductOrderByWithRelationInput[];
+    take: number;
+    skip?: number;
+    cursor?: { id: string };
+  }) => Promise<T[]>,
+  options: { sort: Exclude<ProductSort, 'relevance'>; limit: number; page: number; cursor?: string },
+): Promise<{ items: T[]; nextCursor: string | null }> {
+  // The id tiebreaker keeps the order total, which cursors rely on
+  const orderBy = [...ORDER_BY[options.sort], { id: 'asc' as const }];
+
+  let rows: T[];
+  if (options.cursor) {
+    const { id } = decodeCursor(options.cursor, options.sort);
+    if (!id) throw new BadRequestException('Invalid cursor');
+    rows = await find({ orderBy, cursor: { id }, skip: 1, take: options.limit + 1 });
+  } else {
+    rows = await find({ orderBy, skip: (options.page - 1) * options.limit, take: options.limit + 1 });
+  }
+
+  const items = rows.slice(0, options.limit);
+  const nextCursor = rows.length > options.limit
+    ? encodeCursor({ sort: options.sort, id: items[items.length - 1].id })
+    : null;
+
+  return { items, nextCursor };
+}
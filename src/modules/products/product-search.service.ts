@@ -0,0 +1,188 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, ProductType } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+
+// Upper bounds are exclusive; the last bucket is open-ended
+const PRICE_BUCKETS: { min: number; max: number | null }[] = [
+  { min: 0, max: 100 },
+  { min: 100, max: 250 },
+  { min: 250, max: 500 },
+  { min: 500, max: 1000 },
+  { min: 1000, max: null },
+];
+
+// Searches sorted by something other than relevance only consider this many best matches
+export const MAX_SEARCH_RESULTS = 500;
+
+// Minimum pg_trgm word similarity for a typo to still count as a match
+const TYPO_THRESHOLD = 0.35;
+
+// Listing filters applied inside the search query when sorting by relevance
+export interface SearchFilters {
+  productType: ProductType;
+  categoryId?: string;
+  sellerId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  // From AttributesService.buildSqlFilters
+  attributes: Prisma.Sql[];
+}
+
+@Injectable()
+export class ProductSearchService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Ids of approved products matching `q`, best match first. Used to filter
+   * listings sorted by something else, so at most MAX_SEARCH_RESULTS ids are
+   * returned.
+   */
+  async rankedIds(q: string): Promise<string[]> {
+    const rows = await this.withTypoThreshold<{ id: string }[]>(Prisma.sql`
+      ${this.rankedQuery(q, [])}
+      ORDER BY rank DESC, p.id
+      LIMIT ${MAX_SEARCH_RESULTS}
+    `);
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * One page of approved products matching `q` and the listing filters, best
+   * match first, with the number of matches. Ranking, filtering and paging all
+   * happen in the database, so there is no cap on the results.
+   */
+  async rankedPage(q: string, filters: SearchFilters, offset: number, limit: number): Promise<{ ids: string[]; total: number }> {
+    const [row] = await this.withTypoThreshold<{ ids: string[]; total: number }[]>(Prisma.sql`
+      WITH ranked AS (${this.rankedQuery(q, this.filterConditions(filters))})
+      SELECT
+        (SELECT count(*)::int FROM ranked) AS total,
+        coalesce((
+          SELECT json_agg(page.id ORDER BY page.rank DESC, page.id)
+          FROM (SELECT id, rank FROM ranked ORDER BY rank DESC, id LIMIT ${limit} OFFSET ${offset}) page
+        ), '[]'::json) AS ids
+    `);
+    return { ids: row.ids, total: row.total };
+  }
+
+  // Threshold of the `<%` operator, which unlike word_similarity() can use the trigram index
+  private async withTypoThreshold<T>(query: Prisma.Sql): Promise<T> {
+    const [, rows] = await this.prisma.$transaction([
+      this.prisma.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(TYPO_THRESHOLD)}, true)`,
+      this.prisma.$queryRaw<T>(query),
+    ]);
+    return rows;
+  }
+
+  /**
+   * Approved products matching `q` with their relevance. Name and SKU weigh
+   * more than the seller name, which weighs more than the description; trigram
+   * similarity on the short fields keeps misspelled queries working.
+   */
+  private rankedQuery(q: string, conditions: Prisma.Sql[]) {
+    return Prisma.sql`
+      WITH s AS (
+        SELECT websearch_to_tsquery('portuguese', unaccent(${q})) AS tsq, lower(unaccent(${q})) AS term
+      ),
+      -- One branch per index: full text, trigrams, and seller names (a much smaller table)
+      candidates AS (
+        SELECT p.id FROM "Product" p, s WHERE p."searchVector" @@ s.tsq
+        UNION
+        SELECT p.id FROM "Product" p, s WHERE s.term <% p."searchText"
+        UNION
+        SELECT p.id FROM "Product" p JOIN "User" u ON u.id = p."sellerId", s
+        WHERE to_tsvector('portuguese', unaccent(u.name)) @@ s.tsq OR s.term <% lower(unaccent(u.name))
+      )
+      SELECT p.id,
+        ts_rank_cd(p."searchVector" || setweight(to_tsvector('portuguese', unaccent(coalesce(u.name, ''))), 'B'), s.tsq)
+          + word_similarity(s.term, p."searchText" || ' ' || lower(unaccent(coalesce(u.name, '')))) AS rank
+      FROM candidates c
+      JOIN "Product" p ON p.id = c.id
+      LEFT JOIN "User" u ON u.id = p."sellerId"
+      CROSS JOIN s
+      WHERE p.status = 'APPROVED'
+        AND p."archivedAt" IS NULL
+        AND p."deletedAt" IS NULL
+        ${conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}` : Prisma.empty}
+    `;
+  }
+
+  // Mirrors the Prisma filters ProductsService.findAll applies to other sorts
+  private filterConditions(filters: SearchFilters): Prisma.Sql[] {
+    const conditions = [Prisma.sql`p."productType"::text = ${filters.productType}`];
+    if (filters.categoryId) conditions.push(Prisma.sql`p."categoryId" = ${filters.categoryId}`);
+    if (filters.sellerId) conditions.push(Prisma.sql`p."sellerId" = ${filters.sellerId}`);
+    if (filters.minPrice !== undefined) conditions.push(Prisma.sql`p.price >= ${filters.minPrice}`);
+    if (filters.maxPrice !== undefined) conditions.push(Prisma.sql`p.price <= ${filters.maxPrice}`);
+    if (filters.inStock) conditions.push(Prisma.sql`p.stock > 0`);
+    return [...conditions, ...filters.attributes];
+  }
+
+  /**
+   * Facet counts for a listing. Each facet ignores its own filter so the client
+   * can show the alternatives to the current selection.
+   */
+  async facets(
+    base: Prisma.ProductWhereInput,
+    filters: Partial<Record<'category' | 'seller' | 'price' | 'stock', Prisma.ProductWhereInput>>,
+  ) {
+    const except = (key: keyof typeof filters): Prisma.ProductWhereInput => ({
+      AND: [
+        base,
+        ...Object.entries(filters)
+          .filter(([name, filter]) => name !== key && filter)
+          .map(([, filter]) => filter!),
+      ],
+    });
+    const withoutPrice = except('price');
+    const withoutStock = except('stock');
+
+    const [categoryGroups, sellerGroups, priceCounts, inStock, outOfStock] = await Promise.all([
+      this.prisma.product.groupBy({ by: ['categoryId'], where: except('category'), _count: { _all: true } }),
+      this.prisma.product.groupBy({ by: ['sellerId'], where: except('seller'), _count: { _all: true } }),
+      Promise.all(
+        PRICE_BUCKETS.map((bucket) =>
+          this.prisma.product.count({
+            where: {
+              AND: [withoutPrice, { price: { gte: bucket.min, ...(bucket.max !== null && { lt: bucket.max }) } }],
+            },
+          }),
+        ),
+      ),
+      this.prisma.product.count({ where: { AND: [withoutStock, { stock: { gt: 0 } }] } }),
+      this.prisma.product.count({ where: { AND: [withoutStock, { stock: { lte: 0 } }] } }),
+    ]);
+
+    const sellerIds = sellerGroups.map((group) => group.sellerId).filter((id): id is string => !!id);
+    const [categories, sellers] = await Promise.all([
+      this.prisma.category.findMany({
+        where: { id: { in: categoryGroups.map((group) => group.categoryId) } },
+        select: { id: true, name: true },
+      }),
+      this.prisma.user.findMany({
+        where: { id: { in: sellerIds } },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    return {
+      categories: categoryGroups
+        .map((group) => ({
+          id: group.categoryId,
+          name: categories.find((category) => category.id === group.categoryId)?.name,
+          count: group._count._all,
+        }))
+        .sort((a, b) => b.count - a.count),
+      sellers: sellerGroups
+        .filter((group) => group.sellerId)
+        .map((group) => ({
+          id: group.sellerId,
+          name: sellers.find((seller) => seller.id === group.sellerId)?.name,
+          count: group._count._all,
+        }))
+        .sort((a, b) => b.count - a.count),
+      price: PRICE_BUCKETS.map((bucket, index) => ({ ...bucket, count: priceCounts[index] })),
+      stock: { inStock, outOfStock },
+    };
+  }
+}
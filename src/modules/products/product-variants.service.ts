@@ -0,0 +1,176 @@
+import { Injectable, NotFoundException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { ProductBlingSyncService } from './product-bling-sync.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+
+const VARIANT_IN_USE = 'This variant has been ordered and cannot be deleted; set its stock to 0 instead';
+
+export interface VariantInput {
+  sku: string;
+  color?: string | null;
+  size?: string | null;
+  price?: number | null;
+  stock: number;
+  images?: string[];
+  position?: number;
+}
+
+@Injectable()
+export class ProductVariantsService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private productBlingSync: ProductBlingSyncService,
+  ) {}
+
+  async list(productId: string) {
+    await this.findProduct(productId);
+    return this.prisma.productVariant.findMany({
+      where: { productId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async create(productId: string, sellerId: string, data: VariantInput, actor: AuditActor) {
+    const product = await this.findOwnedProduct(productId, sellerId, actor);
+    await this.assertSkuAvailable(data.sku);
+
+    const variant = await this.prisma.productVariant.create({
+      data: { ...data, productId: product.id },
+    });
+    await this.syncParent(product.id);
+
+    await this.auditService.record(actor, {
+      action: 'product.variant.create',
+      entityType: 'ProductVariant',
+      entityId: variant.id,
+      after: this.auditFields(variant),
+    });
+
+    return variant;
+  }
+
+  async update(productId: string, variantId: string, sellerId: string, data: Partial<VariantInput>, actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+    const existing = await this.findVariant(productId, variantId);
+    if (data.sku && data.sku !== existing.sku) {
+      await this.assertSkuAvailable(data.sku);
+    }
+
+    const variant = await this.prisma.productVariant.update({
+      where: { id: variantId },
+      data,
+    });
+    await this.syncParent(productId);
+
+    await this.auditService.record(actor, {
+      action: 'product.variant.update',
+      entityType: 'ProductVariant',
+      entityId: variantId,
+      before: this.auditFields(existing),
+      after: this.auditFields(variant),
+    });
+
+    return variant;
+  }
+
+  async delete(productId: string, variantId: string, sellerId: string, actor: AuditActor) {
+    await this.findOwnedProduct(productId, sellerId, actor);
+    const variant = await this.findVariant(productId, variantId);
+
+    // Orders and reservations keep pointing at the variant they were placed for
+    const references = await this.prisma.productVariant.findUnique({
+      where: { id: variantId },
+      select: { _count: { select: { orderItems: true, reservations: true } } },
+    });
+    if (references && (references._count.orderItems > 0 || references._count.reservations > 0)) {
+      throw new ConflictException(VARIANT_IN_USE);
+    }
+
+    await this.prisma.productVariant.delete({ where: { id: variantId } }).catch((error) => {
+      // Ordered between the check and the delete
+      if (error.code === 'P2003') {
+        throw new ConflictException(VARIANT_IN_USE);
+      }
+      throw error;
+    });
+    await this.syncParent(productId);
+
+    await this.auditService.record(actor, {
+      action: 'product.variant.delete',
+      entityType: 'ProductVariant',
+      entityId: variantId,
+      before: this.auditFields(variant),
+    });
+
+    return { message: 'Variant deleted' };
+  }
+
+  /**
+   * Keeps the parent's stock equal to the sum of its variants (so catalogue
+   * filters keep working) and mirrors the variations to Bling when linked.
+   * Deleting the last variant leaves the product at 0 until it is restocked.
+   */
+  private async syncParent(productId: string) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      include: { variants: true },
+    });
+    if (!product) return;
+
+    const stock = product.variants.reduce((sum, variant) => sum + variant.stock, 0);
+    if (stock !== product.stock) {
+      await this.prisma.product.update({ where: { id: productId }, data: { stock } });
+    }
+
+    await this.productBlingSync.push(productId);
+  }
+
+  private async findProduct(productId: string) {
+    const product = await this.prisma.product.findFirst({ where: { id: productId, deletedAt: null } });
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+    return product;
+  }
+
+  private async findOwnedProduct(productId: string, sellerId: string, actor: AuditActor) {
+    const product = await this.findProduct(productId);
+    if (actor.role !== UserRole.ADMIN && product.sellerId !== sellerId) {
+      throw new ForbiddenException('You can only manage variants of your own products');
+    }
+    return product;
+  }
+
+  private async findVariant(productId: string, variantId: string) {
+    const variant = await this.prisma.productVariant.findFirst({ where: { id: variantId, productId } });
+    if (!variant) {
+      throw new NotFoundException('Variant not found');
+    }
+    return variant;
+  }
+
+  // Variant SKUs share the namespace of product SKUs since Bling matches on either
+  private async assertSkuAvailable(sku: string) {
+    const [product, variant] = await Promise.all([
+      this.prisma.product.findUnique({ where: { sku } }),
+      this.prisma.productVariant.findUnique({ where: { sku } }),
+    ]);
+    if (product || variant) {
+      throw new ConflictException(`SKU ${sku} is already in use`);
+    }
+  }
+
+  private auditFields(variant: { sku: string; color: string | null; size: string | null; price: Prisma.Decimal | null; stock: number; images: string[] }) {
+    return {
+      sku: variant.sku,
+      color: variant.color,
+      size: variant.size,
+      price: variant.price === null ? null : Number(variant.price),
+      stock: variant.stock,
+      images: variant.images,
+    };
+  }
+}
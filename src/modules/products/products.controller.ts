@@ -1,39 +1,408 @@
-import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards, Request, UseInterceptors, UploadedFile } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
+import { Controller, Get, Post, Put, Patch, Delete, Body, Param, Query, UseGuards, UseInterceptors, UploadedFile, UploadedFiles, BadRequestException, StreamableFile } from '@nestjs/common';
 import { ProductsService } from './products.service';
+import { ProductVariantsService } from './product-variants.service';
+import { LensOptionsService } from './lens-options.service';
+import { ProductImagesService } from './product-images.service';
+import { ProductImportService, SpreadsheetFormat } from './product-import.service';
+import { ProductModerationService } from './product-moderation.service';
+import { AttributeInput } from '../attributes/attributes.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
+import { SellerContextGuard } from '../../common/guards/seller-context.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
-import { diskStorage } from 'multer';
-import { extname } from 'path';
+import { SellerScope, SellerPermission, CurrentSeller, SellerContext } from '../../common/decorators/seller-scope.decorator';
+import { CurrentActor, AuditActor } from '../../common/decorators/current-actor.decorator';
+import { UploadInterceptor } from '../../common/uploads/upload.interceptor';
+import { UPLOAD_RULES } from '../../common/uploads/upload-rules';
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsBoolean, IsEnum, IsIn, IsInt, IsNumber, IsObject, IsOptional, IsString, Max, MaxLength, Min, ValidateNested } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { LensOptionKind, ProductType } from '@prisma/client';
+import { PRODUCT_SORTS, ProductSort } from './product-query';
+
+export class ListProductsQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  q?: string;
+
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
+  @IsOptional()
+  @IsString()
+  sellerId?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @IsNumber()
+  @Min(0)
+  minPrice?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @IsNumber()
+  @Min(0)
+  maxPrice?: number;
+
+  @IsOptional()
+  @IsEnum(ProductType)
+  productType?: ProductType;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  inStock?: boolean;
+
+  // attr[lens_width]=50..54&attr[material]=Acetato,Metal
+  @IsOptional()
+  @IsObject()
+  attr?: Record<string, string | string[]>;
+
+  @IsOptional()
+  @IsIn(PRODUCT_SORTS)
+  sort?: ProductSort;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  // Facet counts cost several extra queries, so they are opt-in
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  facets?: boolean;
+}
+
+// Status, ownership and moderation fields are changed through their own endpoints
+export class UpdateProductDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  stock?: number;
+
+  @IsOptional()
+  @IsString()
+  categoryId?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  images?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  requiresPrescription?: boolean;
+
+  @IsOptional()
+  @IsObject()
+  attributes?: AttributeInput;
+}
+
+export class CreateVariantDto {
+  @IsString()
+  @MaxLength(60)
+  sku: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(60)
+  color?: string;
+
+  // Frame size as lens-bridge-temple, e.g. 52-18-140
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  size?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number | null;
+
+  @IsInt()
+  @Min(0)
+  stock: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  images?: string[];
+
+  @IsOptional()
+  @IsInt()
+  position?: number;
+}
+
+export class UpdateVariantDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(60)
+  sku?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(60)
+  color?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  size?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  stock?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  images?: string[];
+
+  @IsOptional()
+  @IsInt()
+  position?: number;
+}
+
+export class AttachDirectImagesDto {
+  // Keys returned by POST /storage/upload-url
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  keys: string[];
+
+  @IsOptional()
+  @IsArray()
+  altTexts?: (string | null)[];
+}
+
+export class ReorderImagesDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  imageIds: string[];
+}
+
+export class UpdateImageDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  altText?: string | null;
+}
+
+class LensOptionDto {
+  @IsOptional()
+  @IsString()
+  id?: string;
+
+  @IsString()
+  @MaxLength(80)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  description?: string;
+
+  @IsNumber()
+  @Min(0)
+  price: number;
+
+  // Extra production days, e.g. for multifocal or photochromic lenses
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(60)
+  leadTimeDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  position?: number;
+}
+
+export class CreateLensOptionGroupDto {
+  @IsEnum(LensOptionKind)
+  kind: LensOptionKind;
+
+  @IsString()
+  @MaxLength(80)
+  name: string;
+
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  multiple?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  position?: number;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => LensOptionDto)
+  options: LensOptionDto[];
+}
+
+export class UpdateLensOptionGroupDto {
+  @IsOptional()
+  @IsEnum(LensOptionKind)
+  kind?: LensOptionKind;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  name?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  multiple?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  position?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => LensOptionDto)
+  options?: LensOptionDto[];
+}
+
+export class ImportProductsDto {
+  // Multipart field: "true" updates products whose SKU already exists instead of rejecting the row
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  upsert?: string;
+}
+
+export class ExportProductsQueryDto {
+  @IsOptional()
+  @IsIn(['csv', 'xlsx'])
+  format?: SpreadsheetFormat;
+}
 
 @Controller('products')
 export class ProductsController {
-  constructor(private productsService: ProductsService) {}
+  constructor(
+    private productsService: ProductsService,
+    private productVariantsService: ProductVariantsService,
+    private lensOptionsService: LensOptionsService,
+    private productImagesService: ProductImagesService,
+    private productImportService: ProductImportService,
+    private moderationService: ProductModerationService,
+  ) {}
 
   @Get()
-  async findAll(
-    @Query('categoryId') categoryId?: string,
-    @Query('minPrice') minPrice?: string,
-    @Query('maxPrice') maxPrice?: string,
-    @Query('productType') productType?: string,
-    @Query('page') page?: string,
-    @Query('limit') limit?: string,
-  ) {
+  async findAll(@Query() query: ListProductsQueryDto) {
     return this.productsService.findAll({
-      categoryId,
-      minPrice: minPrice ? parseFloat(minPrice) : undefined,
-      maxPrice: maxPrice ? parseFloat(maxPrice) : undefined,
-      productType: productType || undefined,
-      page: page ? parseInt(page) : 1,
-      limit: limit ? parseInt(limit) : 20,
+      ...query,
+      q: query.q?.trim() || undefined,
     });
   }
 
   @Get('seller/me')
-  @UseGuards(JwtAuthGuard)
-  async findMyProducts(@Request() req: any) {
-    return this.productsService.findBySellerId(req.user.sub);
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async findMyProducts(@CurrentSeller() seller: SellerContext) {
+    return this.productsService.findBySellerId(seller.sellerId);
+  }
+
+  // ============ BULK IMPORT / EXPORT ============
+
+  @Get('bulk/export')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async exportProducts(@CurrentSeller() seller: SellerContext, @Query() query: ExportProductsQueryDto) {
+    const { body, contentType, fileName } = await this.productImportService.exportProducts(seller.sellerId, query.format || 'xlsx');
+    return new StreamableFile(body, { type: contentType, disposition: `attachment; filename="${fileName}"` });
+  }
+
+  @Post('bulk/import')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  @UseInterceptors(UploadInterceptor('file', UPLOAD_RULES.spreadsheet))
+  async importProducts(
+    @CurrentSeller() seller: SellerContext,
+    @Body() dto: ImportProductsDto,
+    @CurrentActor() actor: AuditActor,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.productImportService.createImport(seller.sellerId, file, dto.upsert === 'true', actor);
+  }
+
+  @Get('bulk/imports')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async listImports(@CurrentSeller() seller: SellerContext) {
+    return this.productImportService.listImports(seller.sellerId);
+  }
+
+  @Get('bulk/imports/:importId')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async findImport(@Param('importId') importId: string, @CurrentSeller() seller: SellerContext) {
+    return this.productImportService.findImport(seller.sellerId, importId);
+  }
+
+  @Get('bulk/imports/:importId/errors')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async importErrors(@Param('importId') importId: string, @CurrentSeller() seller: SellerContext) {
+    const { body, contentType, fileName } = await this.productImportService.errorReport(seller.sellerId, importId);
+    return new StreamableFile(body, { type: contentType, disposition: `attachment; filename="${fileName}"` });
   }
 
   @Get(':id')
@@ -42,57 +411,297 @@ export class ProductsController {
   }
 
   @Post()
-  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
   @Roles('SELLER', 'ADMIN')
-  @UseInterceptors(FileInterceptor('image', {
-    storage: diskStorage({
-      destination: './uploads',
-      filename: (_req, file, cb) => {
-        cb(null, `${Date.now()}-${Math.round(Math.random() * 1E9)}${extname(file.originalname)}`);
-      },
-    }),
-    fileFilter: (_req, file, cb) => {
-      if (!file.mimetype.match(/^image\/(jpeg|jpg|png|gif|webp)$/)) {
-        return cb(new Error('Only image files are allowed'), false);
-      }
-      cb(null, true);
-    },
-  }))
+  @SellerScope(SellerPermission.CATALOG)
+  @UseInterceptors(UploadInterceptor('image', UPLOAD_RULES.productImage))
   async create(
-    @Request() req: any,
-    @Body() data: { sku: string; name: string; description?: string; price: string; stock: string; categoryId: string },
+    @CurrentSeller() seller: SellerContext,
+    @Body() data: { sku: string; name: string; description?: string; price: string; stock: string; categoryId: string; attributes?: string; requiresPrescription?: string },
+    @CurrentActor() actor: AuditActor,
     @UploadedFile() image?: Express.Multer.File
   ) {
+    // Multipart forms carry attributes as a JSON-encoded field
+    let attributes: AttributeInput | undefined;
+    if (data.attributes) {
+      try {
+        attributes = JSON.parse(data.attributes);
+      } catch {
+        throw new BadRequestException('attributes must be a JSON object');
+      }
+    }
+
     return this.productsService.create({
       ...data,
       price: parseFloat(data.price),
       stock: parseInt(data.stock),
-      sellerId: req.user.sub,
-      imageFile: image
-    });
+      requiresPrescription: data.requiresPrescription === 'true',
+      sellerId: seller.sellerId,
+      imageFile: image,
+      attributes,
+    }, actor);
   }
 
   @Put(':id')
-  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
   @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
   async update(
     @Param('id') id: string,
-    @Body() data: Partial<{ name: string; description: string; price: number; stock: number; categoryId: string; images: string[] }>,
+    @Body() data: UpdateProductDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productsService.update(id, seller.sellerId, data, actor);
+  }
+
+  @Post(':id/archive')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async archive(
+    @Param('id') id: string,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productsService.archive(id, seller.sellerId, actor);
+  }
+
+  @Post(':id/unarchive')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async unarchive(
+    @Param('id') id: string,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
   ) {
-    return this.productsService.update(id, data);
+    return this.productsService.unarchive(id, seller.sellerId, actor);
   }
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles('ADMIN')
-  async delete(@Param('id') id: string) {
-    return this.productsService.delete(id);
+  async delete(@Param('id') id: string, @CurrentActor() actor: AuditActor) {
+    return this.productsService.delete(id, actor);
   }
 
   @Post(':id/submit')
-  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
   @Roles('SELLER')
-  async submitForApproval(@Param('id') id: string, @Request() req: any) {
-    return this.productsService.submitForApproval(id, req.user.sub);
+  @SellerScope(SellerPermission.CATALOG)
+  async submitForApproval(
+    @Param('id') id: string,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productsService.submitForApproval(id, seller.sellerId, actor);
+  }
+
+  @Get(':id/moderation')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async moderationHistory(
+    @Param('id') id: string,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.moderationService.historyForSeller(id, seller.sellerId, actor);
+  }
+
+  // ============ VARIANTS ============
+
+  @Get(':id/variants')
+  async listVariants(@Param('id') id: string) {
+    return this.productVariantsService.list(id);
+  }
+
+  @Post(':id/variants')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async createVariant(
+    @Param('id') id: string,
+    @Body() dto: CreateVariantDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productVariantsService.create(id, seller.sellerId, dto, actor);
+  }
+
+  @Put(':id/variants/:variantId')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async updateVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
+    @Body() dto: UpdateVariantDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productVariantsService.update(id, variantId, seller.sellerId, dto, actor);
+  }
+
+  @Delete(':id/variants/:variantId')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async deleteVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productVariantsService.delete(id, variantId, seller.sellerId, actor);
+  }
+
+  // ============ LENS OPTIONS ============
+
+  @Get(':id/lens-options')
+  async listLensOptions(@Param('id') id: string) {
+    return this.lensOptionsService.list(id);
+  }
+
+  @Post(':id/lens-options')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async createLensOptionGroup(
+    @Param('id') id: string,
+    @Body() dto: CreateLensOptionGroupDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.lensOptionsService.createGroup(id, seller.sellerId, dto, actor);
+  }
+
+  @Put(':id/lens-options/:groupId')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async updateLensOptionGroup(
+    @Param('id') id: string,
+    @Param('groupId') groupId: string,
+    @Body() dto: UpdateLensOptionGroupDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.lensOptionsService.updateGroup(id, groupId, seller.sellerId, dto, actor);
+  }
+
+  @Delete(':id/lens-options/:groupId')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async deleteLensOptionGroup(
+    @Param('id') id: string,
+    @Param('groupId') groupId: string,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.lensOptionsService.deleteGroup(id, groupId, seller.sellerId, actor);
+  }
+
+  // ============ IMAGES ============
+
+  @Get(':id/images')
+  async listImages(@Param('id') id: string) {
+    return this.productImagesService.list(id);
+  }
+
+  @Post(':id/images')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  @UseInterceptors(UploadInterceptor('images', UPLOAD_RULES.productImage, 10))
+  async uploadImages(
+    @Param('id') id: string,
+    @Body() data: { altTexts?: string },
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+    @UploadedFiles() images: Express.Multer.File[],
+  ) {
+    // Multipart forms carry alt texts as a JSON array, in the same order as the files
+    let altTexts: (string | null)[] = [];
+    if (data.altTexts) {
+      try {
+        altTexts = JSON.parse(data.altTexts);
+      } catch {
+        throw new BadRequestException('altTexts must be a JSON array');
+      }
+      if (!Array.isArray(altTexts)) {
+        throw new BadRequestException('altTexts must be a JSON array');
+      }
+    }
+
+    return this.productImagesService.upload(id, seller.sellerId, images, altTexts, actor);
+  }
+
+  @Post(':id/images/direct')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async attachDirectImages(
+    @Param('id') id: string,
+    @Body() dto: AttachDirectImagesDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productImagesService.attachDirectUploads(id, seller.sellerId, dto.keys, dto.altTexts || [], actor);
+  }
+
+  @Put(':id/images/order')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async reorderImages(
+    @Param('id') id: string,
+    @Body() dto: ReorderImagesDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productImagesService.reorder(id, seller.sellerId, dto.imageIds, actor);
+  }
+
+  @Post(':id/images/:imageId/cover')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async setCoverImage(
+    @Param('id') id: string,
+    @Param('imageId') imageId: string,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productImagesService.setCover(id, imageId, seller.sellerId, actor);
+  }
+
+  @Patch(':id/images/:imageId')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async updateImage(
+    @Param('id') id: string,
+    @Param('imageId') imageId: string,
+    @Body() dto: UpdateImageDto,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productImagesService.updateAltText(id, imageId, seller.sellerId, dto.altText ?? null, actor);
+  }
+
+  @Delete(':id/images/:imageId')
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
+  @Roles('SELLER', 'ADMIN')
+  @SellerScope(SellerPermission.CATALOG)
+  async deleteImage(
+    @Param('id') id: string,
+    @Param('imageId') imageId: string,
+    @CurrentSeller() seller: SellerContext,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.productImagesService.delete(id, imageId, seller.sellerId, actor);
   }
 }
@@ -3,13 +3,26 @@ import { JwtModule } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
+import { ProductSearchService } from './product-search.service';
+import { ProductVariantsService } from './product-variants.service';
+import { LensOptionsService } from './lens-options.service';
+import { ProductImagesService } from './product-images.service';
+import { ProductBlingSyncService } from './product-bling-sync.service';
+import { ImageProcessingService } from './image-processing.service';
+import { ProductImportService } from './product-import.service';
+import { ProductModerationModule } from './product-moderation.module';
 import { PrismaModule } from '../../common/prisma/prisma.module';
 import { BlingModule } from '../bling/bling.module';
+import { AuditModule } from '../audit/audit.module';
+import { AttributesModule } from '../attributes/attributes.module';
 
 @Module({
   imports: [
     PrismaModule,
     BlingModule,
+    AuditModule,
+    AttributesModule,
+    ProductModerationModule,
     JwtModule.registerAsync({
       inject: [ConfigService],
       useFactory: (config: ConfigService) => ({
@@ -19,7 +32,16 @@ import { BlingModule } from '../bling/bling.module';
     }),
   ],
   controllers: [ProductsController],
-  providers: [ProductsService],
-  exports: [ProductsService],
+  providers: [
+    ProductsService,
+    ProductSearchService,
+    ProductVariantsService,
+    LensOptionsService,
+    ProductImagesService,
+    ProductBlingSyncService,
+    ImageProcessingService,
+    ProductImportService,
+  ],
+  exports: [ProductsService, LensOptionsService, ProductModerationModule],
 })
 export class ProductsModule {}
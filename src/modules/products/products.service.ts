@@ -1,81 +1,189 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { Prisma, ProductStatus, ProductType, UserRole } from '@prisma/client';
 import { PrismaService } from '../../common/prisma/prisma.service';
+import { MAX_SEARCH_RESULTS, ProductSearchService } from './product-search.service';
+import { AttributesService, AttributeInput } from '../attributes/attributes.service';
+import { ProductSort, findProductPage, encodeCursor, decodeCursor } from './product-query';
 import { BlingService } from '../bling/bling.service';
+import { AuditService } from '../audit/audit.service';
+import { ProductImagesService, StoredImage } from './product-images.service';
+import { ProductModerationService, ModeratedField } from './product-moderation.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
 
 @Injectable()
 export class ProductsService {
   constructor(
     private prisma: PrismaService,
     private blingService: BlingService,
+    private auditService: AuditService,
+    private productSearch: ProductSearchService,
+    private attributesService: AttributesService,
+    private productImagesService: ProductImagesService,
+    private moderationService: ProductModerationService,
   ) {}
 
-  async findAll(filters?: { categoryId?: string; minPrice?: number; maxPrice?: number; productType?: string; page?: number; limit?: number }) {
-    const page = filters?.page || 1;
-    const limit = filters?.limit || 20;
-    const skip = (page - 1) * limit;
+  async findAll(filters: {
+    q?: string;
+    categoryId?: string;
+    sellerId?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    productType?: ProductType;
+    inStock?: boolean;
+    attr?: Record<string, string | string[]>;
+    sort?: ProductSort;
+    cursor?: string;
+    page?: number;
+    limit?: number;
+    facets?: boolean;
+  } = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const sort = filters.sort || (filters.q ? 'relevance' : 'newest');
+    const productType = filters.productType || ProductType.B2C;
 
     // Only show APPROVED B2C products by default (for customer marketplace)
-    const where: any = {
+    const base: Prisma.ProductWhereInput = {
       status: 'APPROVED',
-      productType: filters?.productType || 'B2C',
+      productType,
+      archivedAt: null,
+      deletedAt: null,
     };
 
-    if (filters?.categoryId) {
-      where.categoryId = filters.categoryId;
+    // Relevance pages inside the search query; other sorts and facets filter by the best matches
+    let matchIds: string[] | undefined;
+    if (filters.q && (sort !== 'relevance' || filters.facets)) {
+      matchIds = await this.productSearch.rankedIds(filters.q);
+      base.id = { in: matchIds };
+    } else if (!filters.q && sort === 'relevance') {
+      throw new BadRequestException('Sorting by relevance requires a search query');
     }
 
-    if (filters?.minPrice !== undefined || filters?.maxPrice !== undefined) {
-      where.price = {};
-      if (filters.minPrice !== undefined) where.price.gte = filters.minPrice;
-      if (filters.maxPrice !== undefined) where.price.lte = filters.maxPrice;
+    const attributeFilters = await this.attributesService.buildFilters(filters.attr || {});
+    if (attributeFilters.length > 0) {
+      base.AND = attributeFilters;
     }
 
-    const [products, total] = await Promise.all([
-      this.prisma.product.findMany({
-        where,
-        include: { category: true, seller: { select: { id: true, name: true, email: true, sellerType: true } } },
-        skip,
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-      }),
-      this.prisma.product.count({ where }),
+    const facetFilters: Record<'category' | 'seller' | 'price' | 'stock', Prisma.ProductWhereInput | undefined> = {
+      category: filters.categoryId ? { categoryId: filters.categoryId } : undefined,
+      seller: filters.sellerId ? { sellerId: filters.sellerId } : undefined,
+      price: filters.minPrice !== undefined || filters.maxPrice !== undefined
+        ? { price: { gte: filters.minPrice, lte: filters.maxPrice } }
+        : undefined,
+      stock: filters.inStock ? { stock: { gt: 0 } } : undefined,
+    };
+    const where: Prisma.ProductWhereInput = {
+      AND: [base, ...Object.values(facetFilters).filter((filter): filter is Prisma.ProductWhereInput => !!filter)],
+    };
+    const include = {
+      category: true,
+      seller: { select: { id: true, name: true, email: true, sellerType: true } },
+      variants: {
+        select: { id: true, color: true, size: true, price: true, stock: true },
+        orderBy: { position: 'asc' as const },
+      },
+    };
+
+    let products: Prisma.ProductGetPayload<{ include: typeof include }>[];
+    let nextCursor: string | null;
+    let searchTotal: number | undefined;
+    if (sort === 'relevance') {
+      // Relevance is computed by the query, so its cursor is a plain offset
+      const offset = filters.cursor ? decodeCursor(filters.cursor, sort).offset || 0 : (page - 1) * limit;
+      const result = await this.productSearch.rankedPage(filters.q!, {
+        productType,
+        categoryId: filters.categoryId,
+        sellerId: filters.sellerId,
+        minPrice: filters.minPrice,
+        maxPrice: filters.maxPrice,
+        inStock: filters.inStock,
+        attributes: await this.attributesService.buildSqlFilters(filters.attr || {}),
+      }, offset, limit);
+      const rows = await this.prisma.product.findMany({ where: { id: { in: result.ids } }, include });
+      products = result.ids.map((id) => rows.find((row) => row.id === id)!);
+      nextCursor = offset + limit < result.total ? encodeCursor({ sort, offset: offset + limit }) : null;
+      searchTotal = result.total;
+    } else {
+      ({ items: products, nextCursor } = await findProductPage(
+        (args) => this.prisma.product.findMany({ where, include, ...args }),
+        { sort, limit, page, cursor: filters.cursor },
+      ));
+    }
+
+    const [total, facets] = await Promise.all([
+      searchTotal ?? this.prisma.product.count({ where }),
+      filters.facets ? this.productSearch.facets(base, facetFilters) : undefined,
     ]);
 
     return {
       data: products,
       meta: {
         total,
-        page,
+        // Other sorts only consider the best MAX_SEARCH_RESULTS matches, so their total stops there
+        ...(filters.q && sort !== 'relevance' && { totalCapped: matchIds!.length >= MAX_SEARCH_RESULTS }),
         limit,
-        totalPages: Math.ceil(total / limit),
+        nextCursor,
+        // Page numbers are meaningless when paging by cursor
+        ...(!filters.cursor && { page, totalPages: Math.ceil(total / limit) }),
       },
+      ...(facets && { facets }),
     };
   }
 
   async findBySellerId(sellerId: string) {
     return this.prisma.product.findMany({
-      where: { sellerId },
-      include: { category: true, seller: { select: { id: true, name: true, email: true } } },
+      where: { sellerId, deletedAt: null },
+      include: {
+        category: true,
+        seller: { select: { id: true, name: true, email: true } },
+        variants: { orderBy: { position: 'asc' } },
+        // Latest decision, so sellers see why a product was rejected
+        moderations: { select: { status: true, reason: true, createdAt: true }, orderBy: { createdAt: 'desc' }, take: 1 },
+        attributes: {
+          select: { textValue: true, numberValue: true, definition: { select: { key: true, label: true, type: true, unit: true } } },
+        },
+      },
       orderBy: { createdAt: 'desc' },
     });
   }
 
+  // Archived products still resolve (e.g. links from past orders); deleted ones do not
   async findOne(id: string) {
-    return this.prisma.product.findUnique({
-      where: { id },
-      include: { category: true, seller: { select: { id: true, name: true, email: true } } },
+    return this.prisma.product.findFirst({
+      where: { id, deletedAt: null },
+      include: {
+        category: true,
+        seller: { select: { id: true, name: true, email: true } },
+        variants: { orderBy: { position: 'asc' } },
+        gallery: { orderBy: { position: 'asc' } },
+        lensOptionGroups: {
+          include: { options: { where: { active: true }, orderBy: { position: 'asc' } } },
+          orderBy: { position: 'asc' },
+        },
+        attributes: {
+          select: { textValue: true, numberValue: true, definition: { select: { key: true, label: true, type: true, unit: true } } },
+        },
+      },
     });
   }
 
-  async create(data: { sku: string; name: string; description?: string; price: number; stock: number; categoryId: string; sellerId?: string; imageFile?: Express.Multer.File }) {
+  async create(data: { sku: string; name: string; description?: string; price: number; stock: number; categoryId: string; requiresPrescription?: boolean; sellerId?: string; imageFile?: Express.Multer.File; attributes?: AttributeInput }, actor: AuditActor) {
     const existingProduct = await this.prisma.product.findUnique({
       where: { sku: data.sku },
     });
 
-    if (existingProduct) {
-      throw new Error(`Product with SKU ${data.sku} already exists`);
+    const existingVariant = await this.prisma.productVariant.findUnique({
+      where: { sku: data.sku },
+    });
+
+    if (existingProduct || existingVariant) {
+      throw new ConflictException(`Product with SKU ${data.sku} already exists`);
     }
 
+    // Validated before anything is uploaded or pushed to Bling
+    const category = await this.findActiveCategory(data.categoryId);
+    const attributes = await this.attributesService.resolveValues(data.categoryId, data.attributes || {});
+
     // Check seller status and type to determine approval and product type
     let isSubmittedForApproval = false;
     let productType: 'B2C' | 'B2B' = 'B2C';
@@ -95,28 +203,23 @@ export class ProductsService {
 
     console.log('Image file received:', data.imageFile ? `Yes (${data.imageFile.originalname})` : 'No');
 
-    let imageUrl: string | null = null;
+    let image: StoredImage | null = null;
     const isBlingConnected = data.sellerId ? await this.blingService.isConfigured(data.sellerId) : false;
 
-    // Step 1: Upload image to R2
+    // Step 1: Resize and upload image to storage
     if (data.imageFile) {
-      console.log('Uploading image to R2...');
-      imageUrl = await this.uploadImageToR2(data.imageFile);
-      console.log('Image uploaded to R2:', imageUrl);
+      console.log('Uploading image to storage...');
+      image = await this.productImagesService.store(data.imageFile);
+      console.log('Image uploaded to storage:', image.url);
     } else {
       console.log('No image file provided, skipping upload');
     }
 
     // Step 2: Get Bling category ID from the selected category
-    let blingCategoryId: number | undefined;
-    if (data.categoryId) {
-      const category = await this.prisma.category.findUnique({
-        where: { id: data.categoryId },
-      });
-      blingCategoryId = category?.blingId || undefined;
-    }
+    const blingCategoryId = category.blingId || undefined;
 
     // Step 3: Push to Bling first (if connected)
+    let blingId: string | null = null;
     if (isBlingConnected && data.sellerId) {
       try {
         const blingResult = await this.blingService.pushProductToBling(data.sellerId, {
@@ -125,13 +228,16 @@ export class ProductsService {
           description: data.description,
           price: data.price,
           stock: data.stock,
-          blingImageUrl: imageUrl || undefined, // Send R2 URL to Bling
+          images: image ? [image.url] : [], // Send public URL to Bling
           blingCategoryId: blingCategoryId,
+          customFields: this.attributesService.toBlingFields(attributes),
         });
 
         if (!blingResult.success) {
           throw new Error(blingResult.error || 'Failed to create product in Bling');
         }
+        // Kept so later variant changes can update the same Bling product
+        blingId = blingResult.blingId;
       } catch (error) {
         console.error('Error syncing to Bling:', error);
         throw new Error(`Failed to create product in Bling: ${error.message}`);
@@ -139,63 +245,157 @@ export class ProductsService {
     }
 
     // Step 4: Save to database after Bling sync succeeds
-    const { imageFile, ...productData } = data;
+    const { imageFile, attributes: _attributes, ...productData } = data;
     const product = await this.prisma.product.create({
       data: {
         ...productData,
-        images: imageUrl ? [imageUrl] : [],
+        images: image ? [image.url] : [],
+        imageSizes: image ? [image.sizes] : [],
+        gallery: image ? { create: { ...image, position: 0 } } : undefined,
+        blingId,
         isSubmittedForApproval,
+        submittedAt: isSubmittedForApproval ? new Date() : null,
         productType,
       },
       include: { category: true, seller: { select: { id: true, name: true, email: true, status: true } } },
     });
+    await this.attributesService.replaceValues(product.id, attributes);
+
+    await this.auditService.record(actor, {
+      action: 'product.create',
+      entityType: 'Product',
+      entityId: product.id,
+      after: this.auditFields(product),
+    });
 
     return product;
   }
 
-  private async uploadImageToR2(file: Express.Multer.File): Promise<string> {
-    const { S3Client, PutObjectCommand } = require('@aws-sdk/client-s3');
-    const fs = require('fs');
+  async update(id: string, sellerId: string, data: Partial<{ name: string; description: string; price: number; stock: number; categoryId: string; images: string[]; requiresPrescription: boolean; attributes: AttributeInput }>, actor: AuditActor) {
+    const existing = await this.prisma.product.findUnique({
+      where: { id },
+      include: { _count: { select: { variants: true } } },
+    });
+    if (!existing || existing.deletedAt) {
+      throw new NotFoundException('Product not found');
+    }
+    // Admins may edit any product; the audit entry records their role
+    if (actor.role !== UserRole.ADMIN && existing.sellerId !== sellerId) {
+      throw new ForbiddenException('You can only edit your own products');
+    }
+    if (data.stock !== undefined && existing._count.variants > 0) {
+      throw new BadRequestException('Stock of a product with variants is managed per variant');
+    }
 
-    const s3Client = new S3Client({
-      region: 'auto',
-      endpoint: process.env.R2_ENDPOINT!,
-      credentials: {
-        accessKeyId: process.env.R2_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!,
-      },
+    // Values of keys the new category does not define are dropped on a category change
+    const { attributes: attributeInput, images } = data;
+    // Ownership, status and archive/delete state have their own paths and are never written here
+    const productData: Prisma.ProductUncheckedUpdateInput = {
+      name: data.name,
+      description: data.description,
+      price: data.price,
+      stock: data.stock,
+      categoryId: data.categoryId,
+      requiresPrescription: data.requiresPrescription,
+    };
+    const categoryChanged = !!data.categoryId && data.categoryId !== existing.categoryId;
+    if (categoryChanged) {
+      await this.findActiveCategory(data.categoryId!);
+    }
+    const attributes = attributeInput || categoryChanged
+      ? await this.attributesService.resolveValues(
+          data.categoryId || existing.categoryId,
+          attributeInput || {},
+          await this.attributesService.getValues(id),
+        )
+      : undefined;
+
+    // Raw URL lists are still accepted; the gallery endpoints are the richer way to manage images
+    if (images) {
+      await this.productImagesService.replaceUrls(id, images);
+    }
+
+    const changed: ModeratedField[] = [];
+    if (data.name !== undefined && data.name !== existing.name) changed.push('name');
+    if (data.description !== undefined && data.description !== existing.description) changed.push('description');
+    if (images && images.join('\n') !== existing.images.join('\n')) changed.push('images');
+
+    const product = await this.prisma.$transaction(async (tx) => {
+      await this.moderationService.returnToPending(id, changed, tx);
+      return tx.product.update({
+        where: { id },
+        data: productData,
+        include: { category: true, seller: { select: { id: true, name: true, email: true } } },
+      });
     });
+    if (attributes) {
+      await this.attributesService.replaceValues(id, attributes);
+    }
 
-    const fileName = `image/${Date.now()}-${file.originalname.replace(/\s+/g, '-')}`;
-    const fileContent = fs.readFileSync(file.path);
+    await this.auditService.record(actor, {
+      action: 'product.update',
+      entityType: 'Product',
+      entityId: id,
+      before: this.auditFields(existing),
+      after: this.auditFields(product),
+    });
 
-    await s3Client.send(new PutObjectCommand({
-      Bucket: process.env.R2_BUCKET_NAME!,
-      Key: fileName,
-      Body: fileContent,
-      ContentType: file.mimetype,
-    }));
+    return product;
+  }
 
-    fs.unlinkSync(file.path);
+  async archive(id: string, sellerId: string, actor: AuditActor) {
+    return this.setArchived(id, sellerId, true, actor);
+  }
 
-    return `${process.env.R2_PUBLIC_URL}/${fileName}`;
+  async unarchive(id: string, sellerId: string, actor: AuditActor) {
+    return this.setArchived(id, sellerId, false, actor);
   }
 
-  async update(id: string, data: Partial<{ name: string; description: string; price: number; stock: number; categoryId: string; images: string[] }>) {
-    return this.prisma.product.update({
+  // Soft delete: the row stays so orders keep resolving it, and an admin can restore it
+  async delete(id: string, actor: AuditActor) {
+    const existing = await this.prisma.product.findFirst({ where: { id, deletedAt: null } });
+    if (!existing) {
+      throw new NotFoundException('Product not found');
+    }
+
+    const product = await this.prisma.product.update({
       where: { id },
-      data,
-      include: { category: true, seller: { select: { id: true, name: true, email: true } } },
+      data: { deletedAt: new Date() },
     });
+
+    await this.auditService.record(actor, {
+      action: 'product.delete',
+      entityType: 'Product',
+      entityId: id,
+      before: this.auditFields(existing),
+    });
+
+    return product;
   }
 
-  async delete(id: string) {
-    return this.prisma.product.delete({
+  async restore(id: string, actor: AuditActor) {
+    const existing = await this.prisma.product.findUnique({ where: { id } });
+    if (!existing || !existing.deletedAt) {
+      throw new NotFoundException('Deleted product not found');
+    }
+
+    const product = await this.prisma.product.update({
       where: { id },
+      data: { deletedAt: null },
+      include: { category: true, seller: { select: { id: true, name: true, email: true } } },
     });
+
+    await this.auditService.record(actor, {
+      action: 'product.restore',
+      entityType: 'Product',
+      entityId: id,
+      after: this.auditFields(product),
+    });
+
+    return product;
   }
 
-  async submitForApproval(productId: string, sellerId: string) {
+  async submitForApproval(productId: string, sellerId: string, actor: AuditActor) {
     // Check if seller is ACTIVE before allowing submission
     const seller = await this.prisma.user.findUnique({
       where: { id: sellerId },
@@ -210,11 +410,95 @@ export class ProductsService {
       throw new Error('Your seller account must be approved before you can submit products for approval');
     }
 
-    // Update product to mark as submitted
-    return this.prisma.product.update({
-      where: { id: productId, sellerId },
-      data: { isSubmittedForApproval: true },
-      include: { category: true, seller: { select: { id: true, name: true, email: true, status: true } } },
+    const existing = await this.prisma.product.findFirst({ where: { id: productId, sellerId, deletedAt: null } });
+    if (!existing) {
+      throw new NotFoundException('Product not found');
+    }
+    if (existing.status === ProductStatus.APPROVED || existing.status === ProductStatus.CANCELLED) {
+      throw new BadRequestException(`Product is ${existing.status.toLowerCase()} and cannot be submitted`);
+    }
+    // Already queued: keep its place rather than moving it to the back
+    if (existing.status === ProductStatus.PENDING && existing.isSubmittedForApproval) {
+      return this.prisma.product.findUnique({
+        where: { id: productId },
+        include: { category: true, seller: { select: { id: true, name: true, email: true, status: true } } },
+      });
+    }
+
+    // Rejected products go back to the queue once the seller has addressed the reason
+    const product = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.product.update({
+        where: { id: productId },
+        data: { isSubmittedForApproval: true, status: ProductStatus.PENDING, submittedAt: new Date() },
+        include: { category: true, seller: { select: { id: true, name: true, email: true, status: true } } },
+      });
+      await this.moderationService.record(productId, {
+        fromStatus: existing.status,
+        status: ProductStatus.PENDING,
+        reason: existing.status === ProductStatus.REJECTED ? 'Resubmitted by seller' : 'Submitted by seller',
+      }, tx);
+      return updated;
+    });
+
+    await this.auditService.record(actor, {
+      action: 'product.submit',
+      entityType: 'Product',
+      entityId: productId,
+      before: { status: existing.status },
+      after: { status: product.status },
     });
+
+    return product;
+  }
+
+  private async setArchived(id: string, sellerId: string, archived: boolean, actor: AuditActor) {
+    const existing = await this.prisma.product.findFirst({ where: { id, deletedAt: null } });
+    if (!existing) {
+      throw new NotFoundException('Product not found');
+    }
+    if (actor.role !== UserRole.ADMIN && existing.sellerId !== sellerId) {
+      throw new ForbiddenException('You can only archive your own products');
+    }
+    if (!!existing.archivedAt === archived) {
+      return existing;
+    }
+
+    const product = await this.prisma.product.update({
+      where: { id },
+      data: { archivedAt: archived ? new Date() : null },
+      include: { category: true, seller: { select: { id: true, name: true, email: true } } },
+    });
+
+    await this.auditService.record(actor, {
+      action: archived ? 'product.archive' : 'product.unarchive',
+      entityType: 'Product',
+      entityId: id,
+      before: { archivedAt: existing.archivedAt },
+      after: { archivedAt: product.archivedAt },
+    });
+
+    return product;
+  }
+
+  private async findActiveCategory(categoryId: string) {
+    const category = await this.prisma.category.findFirst({ where: { id: categoryId, deletedAt: null } });
+    if (!category) {
+      throw new BadRequestException('Category not found');
+    }
+    return category;
+  }
+
+  private auditFields(product: { sku: string; name: string; description: string | null; price: any; stock: number; categoryId: string; images: string[]; status: string; requiresPrescription: boolean }) {
+    return {
+      sku: product.sku,
+      name: product.name,
+      description: product.description,
+      price: product.price,
+      stock: product.stock,
+      categoryId: product.categoryId,
+      images: product.images,
+      status: product.status,
+      requiresPrescription: product.requiresPrescription,
+    };
   }
 }
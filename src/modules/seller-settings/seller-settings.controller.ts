@@ -1,26 +1,29 @@
-import { Controller, Get, Post, Query, Res, UseGuards, Request } from '@nestjs/common';
+import { Controller, Get, Post, Query, Res, UseGuards } from '@nestjs/common';
 import { Response } from 'express';
 import { SellerSettingsService } from './seller-settings.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
-import { RolesGuard } from '../../common/guards/roles.guard';
+import { SellerContextGuard } from '../../common/guards/seller-context.guard';
 import { Roles, UserRole } from '../../common/decorators/roles.decorator';
+import { SellerScope, SellerPermission, CurrentSeller, SellerContext } from '../../common/decorators/seller-scope.decorator';
 
 @Controller()
 export class SellerSettingsController {
   constructor(private readonly service: SellerSettingsService) {}
 
   @Get('seller/mercadopago/oauth-url')
-  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
   @Roles(UserRole.SELLER)
-  getOAuthUrl(@Request() req: any) {
-    return this.service.getOAuthUrl(req.user.sub);
+  @SellerScope(SellerPermission.FINANCE)
+  getOAuthUrl(@CurrentSeller() seller: SellerContext) {
+    return this.service.getOAuthUrl(seller.sellerId);
   }
 
   @Post('seller/mercadopago/disconnect')
-  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseGuards(JwtAuthGuard, SellerContextGuard)
   @Roles(UserRole.SELLER)
-  disconnect(@Request() req: any) {
-    return this.service.disconnect(req.user.sub);
+  @SellerScope(SellerPermission.FINANCE)
+  disconnect(@CurrentSeller() seller: SellerContext) {
+    return this.service.disconnect(seller.sellerId);
   }
 
   @Get('mercadopago/callback')
@@ -0,0 +1,88 @@
+import { Controller, Get, Post, Patch, Delete, Body, Param, UseGuards, Request } from '@nestjs/common';
+import { ArrayUnique, IsArray, IsEmail, IsEnum, IsString } from 'class-validator';
+import { SellerPermission } from '@prisma/client';
+import { SellerTeamService } from './seller-team.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles, UserRole } from '../../common/decorators/roles.decorator';
+import { CurrentActor, AuditActor } from '../../common/decorators/current-actor.decorator';
+
+export class InviteMemberDto {
+  @IsEmail()
+  email: string;
+
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(SellerPermission, { each: true })
+  permissions: SellerPermission[];
+}
+
+export class UpdateMemberDto {
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(SellerPermission, { each: true })
+  permissions: SellerPermission[];
+}
+
+export class AcceptInvitationDto {
+  @IsString()
+  token: string;
+}
+
+@Controller('seller/team')
+@UseGuards(JwtAuthGuard)
+export class SellerTeamController {
+  constructor(private sellerTeamService: SellerTeamService) {}
+
+  // ============ MEMBER ============
+
+  @Get('membership')
+  getMembership(@Request() req: any) {
+    return this.sellerTeamService.getMembership(req.user.sub);
+  }
+
+  @Post('accept')
+  acceptInvitation(@Request() req: any, @Body() dto: AcceptInvitationDto) {
+    return this.sellerTeamService.acceptInvitation(req.user.sub, dto.token);
+  }
+
+  @Post('leave')
+  leave(@Request() req: any) {
+    return this.sellerTeamService.leave(req.user.sub);
+  }
+
+  // ============ OWNER ============
+
+  @Get()
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.SELLER)
+  listMembers(@Request() req: any) {
+    return this.sellerTeamService.listMembers(req.user.sub);
+  }
+
+  @Post('invitations')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.SELLER)
+  invite(@Request() req: any, @Body() dto: InviteMemberDto, @CurrentActor() actor: AuditActor) {
+    return this.sellerTeamService.invite(req.user.sub, dto, actor);
+  }
+
+  @Patch(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.SELLER)
+  updateMember(
+    @Request() req: any,
+    @Param('id') id: string,
+    @Body() dto: UpdateMemberDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.sellerTeamService.updateMember(req.user.sub, id, dto.permissions, actor);
+  }
+
+  @Delete(':id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.SELLER)
+  revokeMember(@Request() req: any, @Param('id') id: string, @CurrentActor() actor: AuditActor) {
+    return this.sellerTeamService.revokeMember(req.user.sub, id, actor);
+  }
+}
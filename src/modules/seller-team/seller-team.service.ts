@@ -0,0 +1,230 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SellerPermission, TeamMemberStatus, UserRole } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { MailerService } from '../../common/mailer/mailer.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditActor } from '../../common/decorators/current-actor.decorator';
+
+const memberSelect = {
+  id: true,
+  email: true,
+  permissions: true,
+  status: true,
+  inviteExpiresAt: true,
+  acceptedAt: true,
+  createdAt: true,
+  user: { select: { id: true, name: true, email: true } },
+};
+
+@Injectable()
+export class SellerTeamService {
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private mailer: MailerService,
+    private auditService: AuditService,
+  ) {}
+
+  // ============ OWNER ============
+
+  async listMembers(sellerId: string) {
+    const members = await this.prisma.sellerTeamMember.findMany({
+      where: { sellerId, status: { not: TeamMemberStatus.REVOKED } },
+      select: memberSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+    return { members };
+  }
+
+  async invite(sellerId: string, data: { email: string; permissions: SellerPermission[] }, actor: AuditActor) {
+    const email = data.email.trim().toLowerCase();
+
+    const seller = await this.prisma.user.findUnique({ where: { id: sellerId } });
+    if (!seller) {
+      throw new NotFoundException('Seller not found');
+    }
+    if (seller.email.toLowerCase() === email) {
+      throw new BadRequestException('You cannot invite yourself');
+    }
+
+    const existing = await this.prisma.sellerTeamMember.findUnique({
+      where: { sellerId_email: { sellerId, email } },
+    });
+    if (existing?.status === TeamMemberStatus.ACTIVE) {
+      throw new ConflictException('This person is already a member of your team');
+    }
+
+    const ttlDays = parseInt(this.config.get('TEAM_INVITE_TTL_DAYS', '7'), 10);
+    const token = randomBytes(32).toString('base64url');
+    const invite = {
+      permissions: [...new Set(data.permissions)],
+      status: TeamMemberStatus.INVITED,
+      userId: null,
+      acceptedAt: null,
+      inviteTokenHash: this.hashToken(token),
+      inviteExpiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+    };
+
+    // Re-inviting a pending or revoked address replaces the previous invitation
+    const member = await this.prisma.sellerTeamMember.upsert({
+      where: { sellerId_email: { sellerId, email } },
+      update: invite,
+      create: { sellerId, email, ...invite },
+      select: memberSelect,
+    });
+
+    const frontendUrl = this.config.get('FRONTEND_URL') || 'https://www.visaonaweb.com.br';
+    const link = `${frontendUrl}/seller/team/accept?token=${token}`;
+    try {
+      await this.mailer.send({
+        to: email,
+        subject: `${seller.legalCompanyName || seller.name} invited you to their team`,
+        text: `Hi,\n\n${seller.legalCompanyName || seller.name} invited you to help manage their store. Sign in or create an account with this email address, then open the link below. It expires in ${ttlDays} days.\n\n${link}`,
+      });
+    } catch (error) {
+      // The owner can re-send the invitation if delivery failed
+      console.error('Failed to send team invitation email:', error.message);
+    }
+
+    await this.auditService.record(actor, {
+      action: 'seller_team.invite',
+      entityType: 'SellerTeamMember',
+      entityId: member.id,
+      after: { email, permissions: member.permissions },
+    });
+
+    return member;
+  }
+
+  async updateMember(sellerId: string, memberId: string, permissions: SellerPermission[], actor: AuditActor) {
+    const member = await this.findMember(sellerId, memberId);
+
+    const updated = await this.prisma.sellerTeamMember.update({
+      where: { id: memberId },
+      data: { permissions: [...new Set(permissions)] },
+      select: memberSelect,
+    });
+
+    await this.auditService.record(actor, {
+      action: 'seller_team.permissions.update',
+      entityType: 'SellerTeamMember',
+      entityId: memberId,
+      before: { permissions: member.permissions },
+      after: { permissions: updated.permissions },
+    });
+
+    return updated;
+  }
+
+  async revokeMember(sellerId: string, memberId: string, actor: AuditActor) {
+    const member = await this.findMember(sellerId, memberId);
+
+    await this.prisma.sellerTeamMember.update({
+      where: { id: memberId },
+      data: { status: TeamMemberStatus.REVOKED, inviteTokenHash: null, inviteExpiresAt: null },
+    });
+
+    await this.auditService.record(actor, {
+      action: 'seller_team.revoke',
+      entityType: 'SellerTeamMember',
+      entityId: memberId,
+      before: { status: member.status },
+      after: { status: TeamMemberStatus.REVOKED },
+    });
+
+    return { message: 'Team member removed' };
+  }
+
+  // ============ MEMBER ============
+
+  async acceptInvitation(userId: string, token: string) {
+    const member = await this.prisma.sellerTeamMember.findUnique({
+      where: { inviteTokenHash: this.hashToken(token) },
+    });
+    if (!member || member.status !== TeamMemberStatus.INVITED || !member.inviteExpiresAt || member.inviteExpiresAt < new Date()) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user || user.email.toLowerCase() !== member.email) {
+      throw new BadRequestException('This invitation was sent to a different email address');
+    }
+    // Sellers and admins already act on their own account
+    if (user.role !== UserRole.CUSTOMER) {
+      throw new BadRequestException('Only customer accounts can join a seller team');
+    }
+
+    const current = await this.prisma.sellerTeamMember.findFirst({
+      where: { userId, status: TeamMemberStatus.ACTIVE },
+    });
+    if (current) {
+      throw new ConflictException('Leave your current team before joining another one');
+    }
+
+    const accepted = await this.prisma.sellerTeamMember.update({
+      where: { id: member.id },
+      data: {
+        userId,
+        status: TeamMemberStatus.ACTIVE,
+        acceptedAt: new Date(),
+        inviteTokenHash: null,
+        inviteExpiresAt: null,
+      },
+    });
+
+    await this.auditService.record({ id: userId, role: user.role }, {
+      action: 'seller_team.accept',
+      entityType: 'SellerTeamMember',
+      entityId: member.id,
+      before: { status: member.status },
+      after: { status: accepted.status },
+    });
+
+    return this.getMembership(userId);
+  }
+
+  async getMembership(userId: string) {
+    const membership = await this.prisma.sellerTeamMember.findFirst({
+      where: { userId, status: TeamMemberStatus.ACTIVE },
+      select: {
+        id: true,
+        permissions: true,
+        acceptedAt: true,
+        seller: { select: { id: true, name: true, legalCompanyName: true } },
+      },
+    });
+    return { membership };
+  }
+
+  async leave(userId: string) {
+    const membership = await this.prisma.sellerTeamMember.findFirst({
+      where: { userId, status: TeamMemberStatus.ACTIVE },
+    });
+    if (!membership) {
+      throw new NotFoundException('You are not a member of any seller team');
+    }
+
+    await this.prisma.sellerTeamMember.update({
+      where: { id: membership.id },
+      data: { status: TeamMemberStatus.REVOKED },
+    });
+
+    return { message: 'You left the team' };
+  }
+
+  private async findMember(sellerId: string, memberId: string) {
+    const member = await this.prisma.sellerTeamMember.findFirst({
+      where: { id: memberId, sellerId, status: { not: TeamMemberStatus.REVOKED } },
+    });
+    if (!member) {
+      throw new NotFoundException('Team member not found');
+    }
+    return member;
+  }
+
+  private hashToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}